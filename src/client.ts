@@ -10,6 +10,9 @@
 import type {
   Asset,
   AssetCreateInput,
+  BulkExportResource,
+  BulkOperation,
+  BulkResultRange,
   Collect,
   CollectCreateInput,
   Collection,
@@ -31,8 +34,13 @@ import type {
   DraftOrderUpdateInput,
   Fulfillment,
   FulfillmentCreateInput,
+  FulfillmentHoldInput,
   FulfillmentOrder,
+  FulfillmentOrderCancelResult,
+  FulfillmentOrderMoveResult,
   FulfillmentUpdateTrackingInput,
+  GraphqlResponse,
+  GraphqlUserError,
   InventoryItem,
   InventoryLevel,
   InventoryLevelParams,
@@ -46,6 +54,7 @@ import type {
   OrderListParams,
   OrderUpdateInput,
   PaginatedResponse,
+  PaginationParams,
   PriceRule,
   PriceRuleCreateInput,
   PriceRuleListParams,
@@ -54,6 +63,7 @@ import type {
   ProductCreateInput,
   ProductImage,
   ProductListParams,
+  ProductStatus,
   ProductUpdateInput,
   ProductVariant,
   Refund,
@@ -68,13 +78,35 @@ import type {
   ThemeUpdateInput,
   Transaction,
   TransactionCreateInput,
+  VariantIdentifier,
+  VariantMatch,
+  VariantMetafieldValue,
   Webhook,
   WebhookCreateInput,
   WebhookListParams,
   WebhookUpdateInput,
 } from './types/entities.js';
 import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, CrmApiError, RateLimitError } from './utils/errors.js';
+import { assembleBulkEntities, normalizeBulkEntity } from './utils/bulk.js';
+import {
+  type CallLimitStatus,
+  type CallLimitTracker,
+  type GraphqlCostStatus,
+  type GraphqlCostTracker,
+  getCallLimitTracker,
+  getGraphqlCostTracker,
+} from './utils/call-limit.js';
+import {
+  AuthenticationError,
+  CrmApiError,
+  isRetryableError,
+  RateLimitError,
+  ValidationError,
+} from './utils/errors.js';
+import { createPaginatedResponse, parseLinkHeader } from './utils/pagination.js';
+import { toRestFields } from './utils/projection.js';
+import { RESPONSE_CACHE_DEFAULTS, type ResponseCache } from './utils/response-cache.js';
+import { computeRetryDelay, RETRY_DEFAULTS, type RetryPolicy, sleep } from './utils/retry.js';
 
 // =============================================================================
 // Shopify Client Interface
@@ -82,7 +114,22 @@ import { AuthenticationError, CrmApiError, RateLimitError } from './utils/errors
 
 export interface ShopifyClient {
   // Connection
-  testConnection(): Promise<{ connected: boolean; message: string; shopName?: string }>;
+  testConnection(): Promise<{
+    connected: boolean;
+    message: string;
+    shopName?: string;
+    rateLimit: CallLimitStatus;
+  }>;
+  getRateLimitStatus(): CallLimitStatus;
+
+  // GraphQL
+  graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T>;
+  getGraphqlCostStatus(): GraphqlCostStatus;
+
+  // Bulk Operations
+  startBulkExport(resource: BulkExportResource, search?: string): Promise<BulkOperation>;
+  getBulkOperation(operationId?: string): Promise<BulkOperation | null>;
+  readBulkResult(url: string, offset: number, maxBytes: number): Promise<BulkResultRange>;
 
   // Shop
   getShop(): Promise<Shop>;
@@ -98,9 +145,14 @@ export interface ShopifyClient {
   // Product Variants
   listProductVariants(
     productId: number,
-    params?: { limit?: number; sinceId?: string }
+    params?: { limit?: number; sinceId?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<ProductVariant>>;
   getVariant(variantId: number): Promise<ProductVariant>;
+  findVariants(
+    identifier: VariantIdentifier,
+    value: string
+  ): Promise<{ items: VariantMatch[]; complete: boolean }>;
+  listVariantMetafieldValues(namespace: string, key: string): Promise<VariantMetafieldValue[]>;
   createVariant(productId: number, input: Partial<ProductVariant>): Promise<ProductVariant>;
   updateVariant(variantId: number, input: Partial<ProductVariant>): Promise<ProductVariant>;
   deleteVariant(productId: number, variantId: number): Promise<void>;
@@ -108,7 +160,7 @@ export interface ShopifyClient {
   // Product Images
   listProductImages(
     productId: number,
-    params?: { limit?: number; sinceId?: string }
+    params?: { limit?: number; sinceId?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<ProductImage>>;
   getProductImage(productId: number, imageId: number): Promise<ProductImage>;
   createProductImage(productId: number, input: Partial<ProductImage>): Promise<ProductImage>;
@@ -145,11 +197,12 @@ export interface ShopifyClient {
   getCollection(collectionId: number): Promise<Collection>;
   listCollectionProducts(
     collectionId: number,
-    params?: { limit?: number }
+    params?: { limit?: number; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Product>>;
 
   // Collects (Product-Collection relationships)
   listCollects(params?: CollectListParams): Promise<PaginatedResponse<Collect>>;
+  getCollect(collectId: number): Promise<Collect>;
   createCollect(input: CollectCreateInput): Promise<Collect>;
   deleteCollect(collectId: number): Promise<void>;
 
@@ -177,14 +230,18 @@ export interface ShopifyClient {
   searchCustomers(params: CustomerSearchParams): Promise<PaginatedResponse<Customer>>;
   getCustomerOrders(
     customerId: number,
-    params?: { limit?: number; status?: string }
+    params?: { limit?: number; status?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Order>>;
 
   // Inventory
-  listLocations(params?: { limit?: number }): Promise<PaginatedResponse<Location>>;
+  listLocations(params?: {
+    limit?: number;
+    fields?: string;
+    cursor?: string;
+  }): Promise<PaginatedResponse<Location>>;
   getLocation(locationId: number): Promise<Location>;
   getLocationCount(): Promise<number>;
-  listInventoryLevels(params: InventoryLevelParams): Promise<InventoryLevel[]>;
+  listInventoryLevels(params: InventoryLevelParams): Promise<PaginatedResponse<InventoryLevel>>;
   adjustInventoryLevel(
     inventoryItemId: number,
     locationId: number,
@@ -204,7 +261,7 @@ export interface ShopifyClient {
   // Fulfillments
   listFulfillments(
     orderId: number,
-    params?: { limit?: number }
+    params?: { limit?: number; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Fulfillment>>;
   getFulfillment(orderId: number, fulfillmentId: number): Promise<Fulfillment>;
   createFulfillment(input: FulfillmentCreateInput): Promise<Fulfillment>;
@@ -217,6 +274,21 @@ export interface ShopifyClient {
   // Fulfillment Orders
   listFulfillmentOrders(orderId: number): Promise<FulfillmentOrder[]>;
   getFulfillmentOrder(fulfillmentOrderId: number): Promise<FulfillmentOrder>;
+  moveFulfillmentOrder(
+    fulfillmentOrderId: number,
+    newLocationId: number,
+    lineItems?: Array<{ id: number; quantity: number }>
+  ): Promise<FulfillmentOrderMoveResult>;
+  holdFulfillmentOrder(
+    fulfillmentOrderId: number,
+    input: FulfillmentHoldInput
+  ): Promise<FulfillmentOrder>;
+  releaseFulfillmentOrderHold(fulfillmentOrderId: number): Promise<FulfillmentOrder>;
+  rescheduleFulfillmentOrder(
+    fulfillmentOrderId: number,
+    fulfillAt: string
+  ): Promise<FulfillmentOrder>;
+  cancelFulfillmentOrder(fulfillmentOrderId: number): Promise<FulfillmentOrderCancelResult>;
 
   // Draft Orders
   listDraftOrders(params?: DraftOrderListParams): Promise<PaginatedResponse<DraftOrder>>;
@@ -247,7 +319,10 @@ export interface ShopifyClient {
   createPriceRule(input: PriceRuleCreateInput): Promise<PriceRule>;
   updatePriceRule(priceRuleId: number, input: PriceRuleUpdateInput): Promise<PriceRule>;
   deletePriceRule(priceRuleId: number): Promise<void>;
-  listDiscountCodes(priceRuleId: number): Promise<DiscountCodeEntity[]>;
+  listDiscountCodes(
+    priceRuleId: number,
+    params?: { limit?: number; fields?: string; cursor?: string }
+  ): Promise<PaginatedResponse<DiscountCodeEntity>>;
   createDiscountCode(
     priceRuleId: number,
     input: DiscountCodeCreateInput
@@ -341,15 +416,242 @@ function toSnakeCase<T>(obj: unknown): T {
   return transformKeys<T>(obj, camelToSnake);
 }
 
+// =============================================================================
+// Helper: GraphQL userErrors
+// =============================================================================
+
+const GRAPHQL_ENDPOINT = '/graphql.json';
+
+/**
+ * Throw a ValidationError if any top-level mutation payload reports userErrors
+ */
+function assertNoUserErrors(data: unknown): void {
+  if (typeof data !== 'object' || data === null) return;
+
+  const userErrors: GraphqlUserError[] = [];
+  for (const payload of Object.values(data as Record<string, unknown>)) {
+    if (typeof payload === 'object' && payload !== null && 'userErrors' in payload) {
+      const errors = (payload as { userErrors: GraphqlUserError[] | null }).userErrors;
+      if (Array.isArray(errors)) {
+        userErrors.push(...errors);
+      }
+    }
+  }
+  if (userErrors.length === 0) return;
+
+  const details: Record<string, string[]> = {};
+  for (const error of userErrors) {
+    const field = error.field?.join('.') || 'base';
+    details[field] = [...(details[field] || []), error.message];
+  }
+  throw new ValidationError(userErrors.map((error) => error.message).join('; '), details);
+}
+
+// =============================================================================
+// Variant Search
+// =============================================================================
+
+/**
+ * Most exact matches returned when searching by SKU or barcode
+ */
+const VARIANT_SEARCH_LIMIT = 250;
+
+/**
+ * Most variants read when searching by SKU or barcode. The search also returns
+ * partial matches, which are read through but not returned.
+ */
+const VARIANT_SEARCH_SCAN_LIMIT = 2500;
+
+const VARIANT_SEARCH_QUERY = `query FindVariants($query: String!, $after: String) {
+  productVariants(first: 100, query: $query, after: $after) {
+    nodes {
+      id
+      title
+      sku
+      barcode
+      price
+      inventoryQuantity
+      inventoryItem { id }
+      product { id title handle status }
+    }
+    pageInfo { hasNextPage endCursor }
+  }
+}`;
+
+/**
+ * Most variants read when collecting a variant metafield
+ */
+const VARIANT_METAFIELD_LIMIT = 10000;
+
+const VARIANT_METAFIELD_QUERY = `query VariantMetafieldValues($namespace: String!, $key: String!, $after: String) {
+  productVariants(first: 250, after: $after) {
+    nodes {
+      id
+      sku
+      metafield(namespace: $namespace, key: $key) { value }
+    }
+    pageInfo { hasNextPage endCursor }
+  }
+}`;
+
+interface VariantSearchNode {
+  id: number;
+  title: string;
+  sku: string | null;
+  barcode: string | null;
+  price: string;
+  inventoryQuantity: number | null;
+  inventoryItemId: number;
+  product: { id: number; title: string; handle: string; status: ProductStatus };
+}
+
+// =============================================================================
+// Bulk Export Queries
+// =============================================================================
+
+const BULK_OPERATION_FIELDS = `
+  id
+  status
+  errorCode
+  createdAt
+  completedAt
+  objectCount
+  fileSize
+  url
+  partialDataUrl
+`;
+
+/**
+ * Bulk queries per resource. Fields are aliased to the REST names so the
+ * reassembled entities line up with Product and Order.
+ */
+const BULK_EXPORT_QUERIES: Record<BulkExportResource, (search: string) => string> = {
+  products: (search) => `{
+  products${search} {
+    edges {
+      node {
+        id
+        title
+        bodyHtml: descriptionHtml
+        vendor
+        productType
+        handle
+        status
+        tags
+        templateSuffix
+        createdAt
+        updatedAt
+        publishedAt
+        options { id name position values }
+        variants {
+          edges {
+            node {
+              id
+              title
+              price
+              compareAtPrice
+              sku
+              barcode
+              position
+              inventoryPolicy
+              taxable
+              taxCode
+              inventoryQuantity
+              inventoryItem { id }
+              image { id }
+              createdAt
+              updatedAt
+            }
+          }
+        }
+        images {
+          edges {
+            node { id src: url alt: altText width height }
+          }
+        }
+      }
+    }
+  }
+}`,
+  orders: (search) => `{
+  orders${search} {
+    edges {
+      node {
+        id
+        name
+        email
+        phone
+        totalPrice: totalPriceSet { shopMoney { amount } }
+        subtotalPrice: subtotalPriceSet { shopMoney { amount } }
+        totalTax: totalTaxSet { shopMoney { amount } }
+        totalDiscounts: totalDiscountsSet { shopMoney { amount } }
+        totalWeight
+        currency: currencyCode
+        financialStatus: displayFinancialStatus
+        fulfillmentStatus: displayFulfillmentStatus
+        confirmed
+        cancelReason
+        cancelledAt
+        closedAt
+        processedAt
+        test
+        note
+        tags
+        customer { id email firstName lastName }
+        lineItems {
+          edges {
+            node {
+              id
+              title
+              variantTitle
+              name
+              sku
+              vendor
+              quantity
+              price: originalUnitPriceSet { shopMoney { amount } }
+              totalDiscount: totalDiscountSet { shopMoney { amount } }
+              variant { id }
+              product { id }
+              requiresShipping
+              taxable
+            }
+          }
+        }
+        createdAt
+        updatedAt
+      }
+    }
+  }
+}`,
+};
+
 // =============================================================================
 // Shopify Client Implementation
 // =============================================================================
 
+/**
+ * Client construction options
+ */
+export interface ShopifyClientOptions {
+  /** Overrides for the 429/5xx retry policy */
+  retry?: Partial<RetryPolicy>;
+  /** Cache for GET responses (stateful sessions only) */
+  cache?: ResponseCache;
+}
+
 class ShopifyClientImpl implements ShopifyClient {
   private credentials: TenantCredentials;
+  private retryPolicy: RetryPolicy;
+  private callLimit: CallLimitTracker;
+  private graphqlCost: GraphqlCostTracker;
+  private cache?: ResponseCache;
 
-  constructor(credentials: TenantCredentials) {
+  constructor(credentials: TenantCredentials, options: ShopifyClientOptions = {}) {
     this.credentials = credentials;
+    this.retryPolicy = { ...RETRY_DEFAULTS, ...options.retry };
+    this.callLimit = getCallLimitTracker(credentials.shopDomain);
+    this.graphqlCost = getGraphqlCostTracker(credentials.shopDomain);
+    this.cache = options.cache;
   }
 
   private getBaseUrl(): string {
@@ -364,8 +666,98 @@ class ShopifyClientImpl implements ShopifyClient {
   }
 
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const { data } = await this.requestWithHeaders<T>(endpoint, options);
+    return data;
+  }
+
+  /**
+   * Perform a request and return the parsed body together with the response headers
+   * (needed for Link-header pagination).
+   *
+   * With a response cache, GET responses are reused until they expire and any
+   * other request clears the cache.
+   */
+  private async requestWithHeaders<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<{ data: T; headers: Headers }> {
+    const cache = this.cache;
+    if (!cache) {
+      return this.requestWithRetry<T>(endpoint, options);
+    }
+
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET') {
+      try {
+        return await this.requestWithRetry<T>(endpoint, options);
+      } finally {
+        cache.clear();
+      }
+    }
+
+    // Headers cannot be cloned into the cache, so only the Link header is kept and
+    // the headers are rebuilt from it
+    const cached = cache.get<{ data: T; link: string | null }>(endpoint);
+    if (cached) {
+      return { data: cached.data, headers: new Headers(cached.link ? { Link: cached.link } : {}) };
+    }
+    const result = await this.requestWithRetry<T>(endpoint, options);
+    cache.set(
+      endpoint,
+      { data: result.data, link: result.headers.get('Link') },
+      endpoint === '/shop.json' ? RESPONSE_CACHE_DEFAULTS.shopTtlMs : undefined
+    );
+    return result;
+  }
+
+  /**
+   * Perform a request, retrying with backoff within the attempt and time budget of
+   * the retry policy. Throttled (429) requests were not executed, so they are retried
+   * for every method; transient 5xx/network failures only for idempotent methods.
+   */
+  private async requestWithRetry<T>(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<{ data: T; headers: Headers }> {
+    const policy = this.retryPolicy;
+    const method = (options.method || 'GET').toUpperCase();
+    const idempotent = policy.retryableMethods.includes(method);
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendRequest<T>(endpoint, options);
+      } catch (error) {
+        const throttled = error instanceof RateLimitError;
+        const canRetry = throttled || (idempotent && isRetryableError(error));
+        if (!canRetry || attempt >= policy.maxAttempts) {
+          throw error;
+        }
+        const delay = computeRetryDelay(
+          attempt,
+          policy,
+          error instanceof RateLimitError ? error.retryAfterSeconds : undefined
+        );
+        if (Date.now() - startedAt + delay > policy.timeBudgetMs) {
+          throw error;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Send a single REST request and map error statuses to typed errors
+   */
+  private async sendRequest<T>(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<{ data: T; headers: Headers }> {
     const url = `${this.getBaseUrl()}${endpoint}`;
 
+    // Pause before the shop's call-limit bucket fills
+    await this.callLimit.acquire();
+
     const response = await fetch(url, {
       ...options,
       headers: {
@@ -374,10 +766,34 @@ class ShopifyClientImpl implements ShopifyClient {
       },
     });
 
+    this.callLimit.record(response.headers.get('X-Shopify-Shop-Api-Call-Limit'));
+    if (response.status === 429) {
+      this.callLimit.markExhausted();
+    }
+
+    await this.assertOk(response);
+
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return { data: undefined as T, headers: response.headers };
+    }
+
+    const data = await response.json();
+    return { data: toCamelCase<T>(data), headers: response.headers };
+  }
+
+  /**
+   * Map error HTTP statuses to typed errors
+   */
+  private async assertOk(response: Response): Promise<void> {
     // Handle rate limiting
     if (response.status === 429) {
       const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      const seconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN;
+      throw new RateLimitError(
+        'Rate limit exceeded',
+        Number.isFinite(seconds) ? seconds : undefined
+      );
     }
 
     // Handle authentication errors
@@ -385,8 +801,12 @@ class ShopifyClientImpl implements ShopifyClient {
       throw new AuthenticationError('Invalid access token');
     }
 
+    // Shopify names the missing scope in the body, e.g. "requires merchant approval for write_themes scope"
     if (response.status === 403) {
-      throw new AuthenticationError('Access denied. Check your access scopes.');
+      const detail = await this.readErrorMessage(response);
+      throw new AuthenticationError(
+        `Access denied. Check your access scopes${detail ? `: ${detail}` : '.'}`
+      );
     }
 
     // Handle not found
@@ -396,30 +816,70 @@ class ShopifyClientImpl implements ShopifyClient {
 
     // Handle other errors
     if (!response.ok) {
-      const errorBody = await response.text();
-      let message = `Shopify API error: ${response.status}`;
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson.errors) {
-          if (typeof errorJson.errors === 'string') {
-            message = errorJson.errors;
-          } else {
-            message = JSON.stringify(errorJson.errors);
-          }
-        }
-      } catch {
-        // Use default message
-      }
-      throw new CrmApiError(message, response.status);
+      const message =
+        (await this.readErrorMessage(response)) ?? `Shopify API error: ${response.status}`;
+      // 5xx responses are transient on Shopify's side and safe to retry
+      throw new CrmApiError(message, response.status, undefined, response.status >= 500);
     }
+  }
 
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return undefined as T;
+  /**
+   * Read the `errors` field of an error response, if it has one
+   */
+  private async readErrorMessage(response: Response): Promise<string | undefined> {
+    const errorBody = await response.text();
+    try {
+      const errorJson = JSON.parse(errorBody);
+      if (errorJson.errors) {
+        return typeof errorJson.errors === 'string'
+          ? errorJson.errors
+          : JSON.stringify(errorJson.errors);
+      }
+    } catch {
+      // Use default message
     }
+    return undefined;
+  }
+
+  /**
+   * Fetch one page of a list endpoint and read the page_info cursors from the Link header
+   */
+  private async requestList<T>(
+    endpoint: string,
+    key: string,
+    params?: PaginationParams
+  ): Promise<PaginatedResponse<T>> {
+    const query = this.buildListQuery(params);
+    const { data, headers } = await this.requestWithHeaders<Record<string, T[]>>(
+      `${endpoint}${query ? `?${query}` : ''}`
+    );
+    const cursors = parseLinkHeader(headers.get('Link'));
+    return createPaginatedResponse(data[key] || [], {
+      hasMore: Boolean(cursors.next),
+      nextCursor: cursors.next,
+      previousCursor: cursors.previous,
+    });
+  }
 
-    const data = await response.json();
-    return toCamelCase<T>(data);
+  /**
+   * Build the query string for a list request.
+   *
+   * Shopify rejects filter parameters alongside page_info (the cursor already encodes
+   * the original filters), so only limit and fields are forwarded when paging.
+   */
+  private buildListQuery(params?: PaginationParams): string {
+    if (!params) return '';
+    const { cursor, ...filters } = params;
+    // Nested field paths are projected client-side; Shopify only takes top-level names
+    const fields = filters.fields ? toRestFields(filters.fields) : undefined;
+    if (cursor) {
+      return this.buildQueryParams({
+        limit: filters.limit,
+        fields,
+        pageInfo: cursor,
+      });
+    }
+    return this.buildQueryParams({ ...filters, fields });
   }
 
   private buildQueryParams(params: Record<string, unknown>): string {
@@ -441,22 +901,209 @@ class ShopifyClientImpl implements ShopifyClient {
   // Connection
   // ===========================================================================
 
-  async testConnection(): Promise<{ connected: boolean; message: string; shopName?: string }> {
+  async testConnection(): Promise<{
+    connected: boolean;
+    message: string;
+    shopName?: string;
+    rateLimit: CallLimitStatus;
+  }> {
     try {
       const shop = await this.getShop();
       return {
         connected: true,
         message: `Connected to ${shop.name}`,
         shopName: shop.name,
+        rateLimit: this.getRateLimitStatus(),
       };
     } catch (error) {
       return {
         connected: false,
         message: error instanceof Error ? error.message : 'Connection failed',
+        rateLimit: this.getRateLimitStatus(),
       };
     }
   }
 
+  getRateLimitStatus(): CallLimitStatus {
+    return this.callLimit.getStatus();
+  }
+
+  // ===========================================================================
+  // GraphQL
+  // ===========================================================================
+
+  async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const policy = this.retryPolicy;
+    const startedAt = Date.now();
+    const mutation = /\bmutation\b/.test(query);
+
+    // Mutations may change anything a cached REST read returned
+    if (mutation) {
+      this.cache?.clear();
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      // GraphQL has its own cost bucket and does not count against the REST call limit
+      await this.graphqlCost.acquire();
+
+      // Same retry policy as REST: a 429 is always retried, and 5xx/network failures
+      // only for queries, since a mutation may have been applied
+      let response: Response;
+      try {
+        response = await fetch(`${this.getBaseUrl()}${GRAPHQL_ENDPOINT}`, {
+          method: 'POST',
+          headers: this.getAuthHeaders(),
+          body: JSON.stringify({ query, variables }),
+        });
+        await this.assertOk(response);
+      } catch (error) {
+        const throttled = error instanceof RateLimitError;
+        const canRetry = throttled || (!mutation && isRetryableError(error));
+        const delay = computeRetryDelay(
+          attempt,
+          policy,
+          throttled ? error.retryAfterSeconds : undefined
+        );
+        if (
+          !canRetry ||
+          attempt >= policy.maxAttempts ||
+          Date.now() - startedAt + delay > policy.timeBudgetMs
+        ) {
+          throw error;
+        }
+        await sleep(delay);
+        continue;
+      }
+
+      // GraphQL payloads are already camelCase, so keys are left untouched
+      const body = (await response.json()) as GraphqlResponse<T>;
+      const cost = body.extensions?.cost;
+      this.graphqlCost.record(cost);
+
+      // Throttled operations are not executed, so they are safe to retry
+      if (body.errors?.some((error) => error.extensions?.code === 'THROTTLED')) {
+        const delay = Math.max(
+          this.graphqlCost.getWaitMs(cost?.requestedQueryCost ?? 0),
+          computeRetryDelay(attempt, policy)
+        );
+        if (attempt >= policy.maxAttempts || Date.now() - startedAt + delay > policy.timeBudgetMs) {
+          throw new RateLimitError('GraphQL query cost throttled', Math.ceil(delay / 1000));
+        }
+        await sleep(delay);
+        continue;
+      }
+
+      if (body.errors?.length) {
+        throw new CrmApiError(
+          body.errors.map((error) => error.message).join('; '),
+          response.status,
+          'GRAPHQL_ERROR'
+        );
+      }
+      if (!body.data) {
+        throw new CrmApiError(
+          'GraphQL response contained no data',
+          response.status,
+          'GRAPHQL_ERROR'
+        );
+      }
+
+      assertNoUserErrors(body.data);
+      return body.data;
+    }
+  }
+
+  getGraphqlCostStatus(): GraphqlCostStatus {
+    return this.graphqlCost.getStatus();
+  }
+
+  // ===========================================================================
+  // Bulk Operations
+  // ===========================================================================
+
+  async startBulkExport(resource: BulkExportResource, search?: string): Promise<BulkOperation> {
+    const filter = search ? `(query: ${JSON.stringify(search)})` : '';
+    const data = await this.graphql<{ bulkOperationRunQuery: { bulkOperation: BulkOperation } }>(
+      `mutation RunBulkExport($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { ${BULK_OPERATION_FIELDS} }
+          userErrors { field message }
+        }
+      }`,
+      { query: BULK_EXPORT_QUERIES[resource](filter) }
+    );
+    return data.bulkOperationRunQuery.bulkOperation;
+  }
+
+  async getBulkOperation(operationId?: string): Promise<BulkOperation | null> {
+    if (operationId) {
+      const data = await this.graphql<{ node: BulkOperation | null }>(
+        `query GetBulkOperation($id: ID!) {
+          node(id: $id) { ... on BulkOperation { ${BULK_OPERATION_FIELDS} } }
+        }`,
+        { id: operationId }
+      );
+      return data.node;
+    }
+    const data = await this.graphql<{ currentBulkOperation: BulkOperation | null }>(
+      `{ currentBulkOperation { ${BULK_OPERATION_FIELDS} } }`
+    );
+    return data.currentBulkOperation;
+  }
+
+  /**
+   * Read whole entities from a bulk result file, starting at a byte offset.
+   *
+   * The file is fetched with a Range request of maxBytes, widened when a single
+   * entity does not fit. Result URLs are pre-signed, so no Shopify credentials are sent.
+   */
+  async readBulkResult(url: string, offset: number, maxBytes: number): Promise<BulkResultRange> {
+    for (let length = maxBytes; ; length *= 2) {
+      const response = await fetch(url, {
+        headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+      });
+      if (response.status === 416) {
+        return { entities: [], complete: true, totalBytes: offset };
+      }
+      if (!response.ok) {
+        throw new CrmApiError(
+          `Failed to download bulk result: ${response.status}`,
+          response.status,
+          'BULK_RESULT_ERROR',
+          response.status >= 500
+        );
+      }
+
+      let buffer = new Uint8Array(await response.arrayBuffer());
+      let complete: boolean;
+      let totalBytes: number | null;
+      if (response.status === 206) {
+        const range = response.headers.get('Content-Range')?.match(/\/(\d+)$/);
+        totalBytes = range ? parseInt(range[1], 10) : null;
+        complete =
+          totalBytes !== null ? offset + buffer.length >= totalBytes : buffer.length < length;
+      } else {
+        // The server ignored the Range header and sent the whole file
+        totalBytes = buffer.length;
+        buffer = buffer.subarray(offset);
+        complete = true;
+      }
+
+      const entities = assembleBulkEntities(buffer, complete);
+      if (entities.length > 0 || complete) {
+        return {
+          entities: entities.map(({ value, start, end }) => ({
+            entity: normalizeBulkEntity(value) as Record<string, unknown>,
+            offset: offset + start,
+            nextOffset: offset + end,
+          })),
+          complete,
+          totalBytes,
+        };
+      }
+    }
+  }
+
   // ===========================================================================
   // Shop
   // ===========================================================================
@@ -471,15 +1118,7 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listProducts(params?: ProductListParams): Promise<PaginatedResponse<Product>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ products: Product[] }>(
-      `/products.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.products,
-      count: data.products.length,
-      hasMore: data.products.length === (params?.limit || 50),
-    };
+    return this.requestList<Product>('/products.json', 'products', params);
   }
 
   async getProduct(productId: number): Promise<Product> {
@@ -521,17 +1160,92 @@ class ShopifyClientImpl implements ShopifyClient {
 
   async listProductVariants(
     productId: number,
-    params?: { limit?: number; sinceId?: string }
+    params?: { limit?: number; sinceId?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<ProductVariant>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ variants: ProductVariant[] }>(
-      `/products/${productId}/variants.json${query ? `?${query}` : ''}`
+    return this.requestList<ProductVariant>(
+      `/products/${productId}/variants.json`,
+      'variants',
+      params
     );
-    return {
-      items: data.variants,
-      count: data.variants.length,
-      hasMore: data.variants.length === (params?.limit || 50),
-    };
+  }
+
+  /**
+   * Find variants whose SKU or barcode is exactly the given value. Shopify's search
+   * matches loosely, so results are filtered to exact matches. A duplicated SKU
+   * returns every variant that has it; complete is false when the search stopped at
+   * its match or scan limit before reading every result.
+   */
+  async findVariants(
+    identifier: VariantIdentifier,
+    value: string
+  ): Promise<{ items: VariantMatch[]; complete: boolean }> {
+    const query = `${identifier}:"${value.replace(/(["\\])/g, '\\$1')}"`;
+    const nodes: VariantSearchNode[] = [];
+    let read = 0;
+    let after: string | null = null;
+    do {
+      const data: {
+        productVariants: {
+          nodes: unknown[];
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      } = await this.graphql(VARIANT_SEARCH_QUERY, { query, after });
+      const page = normalizeBulkEntity(data.productVariants.nodes) as VariantSearchNode[];
+      read += page.length;
+      nodes.push(...page.filter((node) => node[identifier] === value));
+      after = data.productVariants.pageInfo.hasNextPage
+        ? data.productVariants.pageInfo.endCursor
+        : null;
+    } while (after && nodes.length < VARIANT_SEARCH_LIMIT && read < VARIANT_SEARCH_SCAN_LIMIT);
+
+    const items = nodes.slice(0, VARIANT_SEARCH_LIMIT).map(
+      (node): VariantMatch => ({
+        productId: node.product.id,
+        productTitle: node.product.title,
+        productHandle: node.product.handle,
+        productStatus: node.product.status,
+        variantId: node.id,
+        variantTitle: node.title,
+        sku: node.sku,
+        barcode: node.barcode,
+        price: node.price,
+        inventoryItemId: node.inventoryItemId,
+        inventoryQuantity: node.inventoryQuantity,
+      })
+    );
+    return { items, complete: after === null && nodes.length <= VARIANT_SEARCH_LIMIT };
+  }
+
+  async listVariantMetafieldValues(
+    namespace: string,
+    key: string
+  ): Promise<VariantMetafieldValue[]> {
+    const values: VariantMetafieldValue[] = [];
+    let read = 0;
+    let after: string | null = null;
+    do {
+      const data: {
+        productVariants: {
+          nodes: unknown[];
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      } = await this.graphql(VARIANT_METAFIELD_QUERY, { namespace, key, after });
+      const nodes = normalizeBulkEntity(data.productVariants.nodes) as {
+        id: number;
+        sku: string | null;
+        metafield: { value: string } | null;
+      }[];
+      read += nodes.length;
+      for (const node of nodes) {
+        if (node.metafield) {
+          values.push({ variantId: node.id, sku: node.sku, value: node.metafield.value });
+        }
+      }
+      after = data.productVariants.pageInfo.hasNextPage
+        ? data.productVariants.pageInfo.endCursor
+        : null;
+    } while (after && read < VARIANT_METAFIELD_LIMIT);
+    return values;
   }
 
   async getVariant(variantId: number): Promise<ProductVariant> {
@@ -568,17 +1282,9 @@ class ShopifyClientImpl implements ShopifyClient {
 
   async listProductImages(
     productId: number,
-    params?: { limit?: number; sinceId?: string }
+    params?: { limit?: number; sinceId?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<ProductImage>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ images: ProductImage[] }>(
-      `/products/${productId}/images.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.images,
-      count: data.images.length,
-      hasMore: data.images.length === (params?.limit || 50),
-    };
+    return this.requestList<ProductImage>(`/products/${productId}/images.json`, 'images', params);
   }
 
   async getProductImage(productId: number, imageId: number): Promise<ProductImage> {
@@ -622,15 +1328,11 @@ class ShopifyClientImpl implements ShopifyClient {
   async listCustomCollections(
     params?: CollectionListParams
   ): Promise<PaginatedResponse<CustomCollection>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ customCollections: CustomCollection[] }>(
-      `/custom_collections.json${query ? `?${query}` : ''}`
+    return this.requestList<CustomCollection>(
+      '/custom_collections.json',
+      'customCollections',
+      params
     );
-    return {
-      items: data.customCollections,
-      count: data.customCollections.length,
-      hasMore: data.customCollections.length === (params?.limit || 50),
-    };
   }
 
   async getCustomCollection(collectionId: number): Promise<CustomCollection> {
@@ -676,15 +1378,7 @@ class ShopifyClientImpl implements ShopifyClient {
   async listSmartCollections(
     params?: CollectionListParams
   ): Promise<PaginatedResponse<SmartCollection>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ smartCollections: SmartCollection[] }>(
-      `/smart_collections.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.smartCollections,
-      count: data.smartCollections.length,
-      hasMore: data.smartCollections.length === (params?.limit || 50),
-    };
+    return this.requestList<SmartCollection>('/smart_collections.json', 'smartCollections', params);
   }
 
   async getSmartCollection(collectionId: number): Promise<SmartCollection> {
@@ -736,17 +1430,13 @@ class ShopifyClientImpl implements ShopifyClient {
 
   async listCollectionProducts(
     collectionId: number,
-    params?: { limit?: number }
+    params?: { limit?: number; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Product>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ products: Product[] }>(
-      `/collections/${collectionId}/products.json${query ? `?${query}` : ''}`
+    return this.requestList<Product>(
+      `/collections/${collectionId}/products.json`,
+      'products',
+      params
     );
-    return {
-      items: data.products,
-      count: data.products.length,
-      hasMore: data.products.length === (params?.limit || 50),
-    };
   }
 
   // ===========================================================================
@@ -754,15 +1444,12 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listCollects(params?: CollectListParams): Promise<PaginatedResponse<Collect>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ collects: Collect[] }>(
-      `/collects.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.collects,
-      count: data.collects.length,
-      hasMore: data.collects.length === (params?.limit || 50),
-    };
+    return this.requestList<Collect>('/collects.json', 'collects', params);
+  }
+
+  async getCollect(collectId: number): Promise<Collect> {
+    const data = await this.request<{ collect: Collect }>(`/collects/${collectId}.json`);
+    return data.collect;
   }
 
   async createCollect(input: CollectCreateInput): Promise<Collect> {
@@ -782,13 +1469,7 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listOrders(params?: OrderListParams): Promise<PaginatedResponse<Order>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ orders: Order[] }>(`/orders.json${query ? `?${query}` : ''}`);
-    return {
-      items: data.orders,
-      count: data.orders.length,
-      hasMore: data.orders.length === (params?.limit || 50),
-    };
+    return this.requestList<Order>('/orders.json', 'orders', params);
   }
 
   async getOrder(orderId: number): Promise<Order> {
@@ -854,15 +1535,7 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listCustomers(params?: CustomerListParams): Promise<PaginatedResponse<Customer>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ customers: Customer[] }>(
-      `/customers.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.customers,
-      count: data.customers.length,
-      hasMore: data.customers.length === (params?.limit || 50),
-    };
+    return this.requestList<Customer>('/customers.json', 'customers', params);
   }
 
   async getCustomer(customerId: number): Promise<Customer> {
@@ -899,44 +1572,26 @@ class ShopifyClientImpl implements ShopifyClient {
   }
 
   async searchCustomers(params: CustomerSearchParams): Promise<PaginatedResponse<Customer>> {
-    const query = this.buildQueryParams(params);
-    const data = await this.request<{ customers: Customer[] }>(`/customers/search.json?${query}`);
-    return {
-      items: data.customers,
-      count: data.customers.length,
-      hasMore: data.customers.length === (params?.limit || 50),
-    };
+    return this.requestList<Customer>('/customers/search.json', 'customers', params);
   }
 
   async getCustomerOrders(
     customerId: number,
-    params?: { limit?: number; status?: string }
+    params?: { limit?: number; status?: string; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Order>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ orders: Order[] }>(
-      `/customers/${customerId}/orders.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.orders,
-      count: data.orders.length,
-      hasMore: data.orders.length === (params?.limit || 50),
-    };
+    return this.requestList<Order>(`/customers/${customerId}/orders.json`, 'orders', params);
   }
 
   // ===========================================================================
   // Inventory
   // ===========================================================================
 
-  async listLocations(params?: { limit?: number }): Promise<PaginatedResponse<Location>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ locations: Location[] }>(
-      `/locations.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.locations,
-      count: data.locations.length,
-      hasMore: data.locations.length === (params?.limit || 50),
-    };
+  async listLocations(params?: {
+    limit?: number;
+    fields?: string;
+    cursor?: string;
+  }): Promise<PaginatedResponse<Location>> {
+    return this.requestList<Location>('/locations.json', 'locations', params);
   }
 
   async getLocation(locationId: number): Promise<Location> {
@@ -949,12 +1604,10 @@ class ShopifyClientImpl implements ShopifyClient {
     return data.count;
   }
 
-  async listInventoryLevels(params: InventoryLevelParams): Promise<InventoryLevel[]> {
-    const query = this.buildQueryParams(params);
-    const data = await this.request<{ inventoryLevels: InventoryLevel[] }>(
-      `/inventory_levels.json?${query}`
-    );
-    return data.inventoryLevels;
+  async listInventoryLevels(
+    params: InventoryLevelParams
+  ): Promise<PaginatedResponse<InventoryLevel>> {
+    return this.requestList<InventoryLevel>('/inventory_levels.json', 'inventoryLevels', params);
   }
 
   async adjustInventoryLevel(
@@ -1022,17 +1675,13 @@ class ShopifyClientImpl implements ShopifyClient {
 
   async listFulfillments(
     orderId: number,
-    params?: { limit?: number }
+    params?: { limit?: number; fields?: string; cursor?: string }
   ): Promise<PaginatedResponse<Fulfillment>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ fulfillments: Fulfillment[] }>(
-      `/orders/${orderId}/fulfillments.json${query ? `?${query}` : ''}`
+    return this.requestList<Fulfillment>(
+      `/orders/${orderId}/fulfillments.json`,
+      'fulfillments',
+      params
     );
-    return {
-      items: data.fulfillments,
-      count: data.fulfillments.length,
-      hasMore: data.fulfillments.length === (params?.limit || 50),
-    };
   }
 
   async getFulfillment(orderId: number, fulfillmentId: number): Promise<Fulfillment> {
@@ -1090,20 +1739,74 @@ class ShopifyClientImpl implements ShopifyClient {
     return data.fulfillmentOrder;
   }
 
+  async moveFulfillmentOrder(
+    fulfillmentOrderId: number,
+    newLocationId: number,
+    lineItems?: Array<{ id: number; quantity: number }>
+  ): Promise<FulfillmentOrderMoveResult> {
+    return this.request<FulfillmentOrderMoveResult>(
+      `/fulfillment_orders/${fulfillmentOrderId}/move.json`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          fulfillment_order: toSnakeCase({
+            newLocationId,
+            fulfillmentOrderLineItems: lineItems,
+          }),
+        }),
+      }
+    );
+  }
+
+  async holdFulfillmentOrder(
+    fulfillmentOrderId: number,
+    input: FulfillmentHoldInput
+  ): Promise<FulfillmentOrder> {
+    const data = await this.request<{ fulfillmentOrder: FulfillmentOrder }>(
+      `/fulfillment_orders/${fulfillmentOrderId}/hold.json`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ fulfillment_hold: toSnakeCase(input) }),
+      }
+    );
+    return data.fulfillmentOrder;
+  }
+
+  async releaseFulfillmentOrderHold(fulfillmentOrderId: number): Promise<FulfillmentOrder> {
+    const data = await this.request<{ fulfillmentOrder: FulfillmentOrder }>(
+      `/fulfillment_orders/${fulfillmentOrderId}/release_hold.json`,
+      { method: 'POST' }
+    );
+    return data.fulfillmentOrder;
+  }
+
+  async rescheduleFulfillmentOrder(
+    fulfillmentOrderId: number,
+    fulfillAt: string
+  ): Promise<FulfillmentOrder> {
+    const data = await this.request<{ fulfillmentOrder: FulfillmentOrder }>(
+      `/fulfillment_orders/${fulfillmentOrderId}/reschedule.json`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ fulfillment_order: { new_fulfill_at: fulfillAt } }),
+      }
+    );
+    return data.fulfillmentOrder;
+  }
+
+  async cancelFulfillmentOrder(fulfillmentOrderId: number): Promise<FulfillmentOrderCancelResult> {
+    return this.request<FulfillmentOrderCancelResult>(
+      `/fulfillment_orders/${fulfillmentOrderId}/cancel.json`,
+      { method: 'POST' }
+    );
+  }
+
   // ===========================================================================
   // Draft Orders
   // ===========================================================================
 
   async listDraftOrders(params?: DraftOrderListParams): Promise<PaginatedResponse<DraftOrder>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ draftOrders: DraftOrder[] }>(
-      `/draft_orders.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.draftOrders,
-      count: data.draftOrders.length,
-      hasMore: data.draftOrders.length === (params?.limit || 50),
-    };
+    return this.requestList<DraftOrder>('/draft_orders.json', 'draftOrders', params);
   }
 
   async getDraftOrder(draftOrderId: number): Promise<DraftOrder> {
@@ -1230,15 +1933,7 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listPriceRules(params?: PriceRuleListParams): Promise<PaginatedResponse<PriceRule>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ priceRules: PriceRule[] }>(
-      `/price_rules.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.priceRules,
-      count: data.priceRules.length,
-      hasMore: data.priceRules.length === (params?.limit || 50),
-    };
+    return this.requestList<PriceRule>('/price_rules.json', 'priceRules', params);
   }
 
   async getPriceRule(priceRuleId: number): Promise<PriceRule> {
@@ -1270,11 +1965,15 @@ class ShopifyClientImpl implements ShopifyClient {
   // Discount Codes
   // ===========================================================================
 
-  async listDiscountCodes(priceRuleId: number): Promise<DiscountCodeEntity[]> {
-    const data = await this.request<{ discountCodes: DiscountCodeEntity[] }>(
-      `/price_rules/${priceRuleId}/discount_codes.json`
+  async listDiscountCodes(
+    priceRuleId: number,
+    params?: { limit?: number; fields?: string; cursor?: string }
+  ): Promise<PaginatedResponse<DiscountCodeEntity>> {
+    return this.requestList<DiscountCodeEntity>(
+      `/price_rules/${priceRuleId}/discount_codes.json`,
+      'discountCodes',
+      params
     );
-    return data.discountCodes;
   }
 
   async createDiscountCode(
@@ -1324,15 +2023,7 @@ class ShopifyClientImpl implements ShopifyClient {
   // ===========================================================================
 
   async listWebhooks(params?: WebhookListParams): Promise<PaginatedResponse<Webhook>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ webhooks: Webhook[] }>(
-      `/webhooks.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.webhooks,
-      count: data.webhooks.length,
-      hasMore: data.webhooks.length === (params?.limit || 50),
-    };
+    return this.requestList<Webhook>('/webhooks.json', 'webhooks', params);
   }
 
   async getWebhook(webhookId: number): Promise<Webhook> {
@@ -1441,15 +2132,11 @@ class ShopifyClientImpl implements ShopifyClient {
     ownerId: number,
     params?: MetafieldListParams
   ): Promise<PaginatedResponse<Metafield>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ metafields: Metafield[] }>(
-      `/${ownerResource}/${ownerId}/metafields.json${query ? `?${query}` : ''}`
+    return this.requestList<Metafield>(
+      `/${ownerResource}/${ownerId}/metafields.json`,
+      'metafields',
+      params
     );
-    return {
-      items: data.metafields,
-      count: data.metafields.length,
-      hasMore: data.metafields.length === (params?.limit || 50),
-    };
   }
 
   async getMetafield(
@@ -1505,15 +2192,7 @@ class ShopifyClientImpl implements ShopifyClient {
   }
 
   async listShopMetafields(params?: MetafieldListParams): Promise<PaginatedResponse<Metafield>> {
-    const query = params ? this.buildQueryParams(params) : '';
-    const data = await this.request<{ metafields: Metafield[] }>(
-      `/metafields.json${query ? `?${query}` : ''}`
-    );
-    return {
-      items: data.metafields,
-      count: data.metafields.length,
-      hasMore: data.metafields.length === (params?.limit || 50),
-    };
+    return this.requestList<Metafield>('/metafields.json', 'metafields', params);
   }
 
   async createShopMetafield(input: MetafieldCreateInput): Promise<Metafield> {
@@ -1536,7 +2215,11 @@ class ShopifyClientImpl implements ShopifyClient {
  * allowing a single server deployment to serve multiple Shopify stores.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Client options (retry policy overrides)
  */
-export function createShopifyClient(credentials: TenantCredentials): ShopifyClient {
-  return new ShopifyClientImpl(credentials);
+export function createShopifyClient(
+  credentials: TenantCredentials,
+  options: ShopifyClientOptions = {}
+): ShopifyClient {
+  return new ShopifyClientImpl(credentials, options);
 }
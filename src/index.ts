@@ -14,17 +14,28 @@
  *
  * Optional Headers:
  * - X-Shopify-API-Version: API version (defaults to 2024-01)
+ * - X-MCP-Tool-Profile: readonly | support | merchandising | full (defaults to full)
+ * - X-MCP-Tool-Allow / X-MCP-Tool-Deny: comma-separated tools to add to or remove from the profile
+ * - X-MCP-Require-Confirmation: true to make destructive tools ask for a confirmation token
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
 import { createShopifyClient } from './client.js';
+import { handleOAuthCallback, handleOAuthInstall, resolveServerKeyCredentials } from './oauth.js';
 import {
+  registerAuditTools,
+  registerBulkTools,
+  registerChangeTools,
   registerCollectionTools,
+  registerContinuationTools,
   registerCustomerTools,
   registerDiscountTools,
   registerDraftOrderTools,
+  registerExportTools,
   registerFulfillmentTools,
+  registerGraphqlTools,
+  registerImportTools,
   registerInventoryTools,
   registerMetafieldTools,
   registerOrderTools,
@@ -32,14 +43,32 @@ import {
   registerShopTools,
   registerThemeTools,
   registerTransactionTools,
+  registerWebhookEventTools,
   registerWebhookTools,
 } from './tools/index.js';
 import {
   type Env,
+  getCharacterLimit,
   parseTenantCredentials,
   type TenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { applyAuditContext, createAuditedClient, createAuditSink } from './utils/audit-log.js';
+import {
+  createChangeStore,
+  createSnapshotClient,
+  getChangeRetentionSeconds,
+} from './utils/change-history.js';
+import { applyConfirmation, createConfirmationNonceStore } from './utils/confirmation.js';
+import { applyContinuationScope } from './utils/continuation.js';
+import { setResponseCharacterLimit } from './utils/formatters.js';
+import { applyIdempotency, createIdempotencyStore } from './utils/idempotency.js';
+import { ResponseCache } from './utils/response-cache.js';
+import { getRetryPolicy } from './utils/retry.js';
+import { createShopAccessCheck } from './utils/shop-access.js';
+import { applyToolPolicy, parseToolPolicy, type ToolPolicy } from './utils/tool-profiles.js';
+import { createWebhookEventStore } from './utils/webhook-store.js';
+import { handleWebhookRequest } from './webhook-receiver.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -49,39 +78,182 @@ const SERVER_NAME = 'shopify-mcp-server';
 const SERVER_VERSION = '1.0.0';
 
 // =============================================================================
-// MCP Agent (Stateful - uses Durable Objects)
+// Tool Registration
 // =============================================================================
 
 /**
- * McpAgent provides stateful MCP sessions backed by Durable Objects.
- *
- * NOTE: For multi-tenant deployments, use the stateless mode (Option 2) instead.
- * The stateful McpAgent is better suited for single-tenant deployments where
- * credentials can be stored as wrangler secrets.
+ * Registers all Shopify tools on a server for one tenant.
  *
- * Use this when you need:
- * - Session state persistence
- * - Per-user rate limiting
- * - Cached API responses
+ * @param target - MCP server to register the tools on
+ * @param credentials - Tenant credentials
+ * @param toolPolicy - Which tools the server exposes
+ * @param env - Worker environment (server-wide configuration)
+ * @param cache - Optional GET response cache (stateful sessions)
+ */
+function registerAllTools(
+  target: McpServer,
+  credentials: TenantCredentials,
+  toolPolicy: ToolPolicy,
+  env: Env,
+  cache?: ResponseCache
+): void {
+  setResponseCharacterLimit(getCharacterLimit(env));
+
+  // Tools outside the policy are removed as they are registered, client calls made
+  // by a tool are attributed to it in the audit log, and continuation tokens only
+  // work for the shop that received them
+  let server = applyContinuationScope(
+    applyAuditContext(applyToolPolicy(target, toolPolicy)),
+    credentials.shopDomain
+  );
+  if (toolPolicy.requireConfirmation) {
+    server = applyConfirmation(server, {
+      secret: env.CONFIRMATION_SECRET || credentials.accessToken,
+      shopDomain: credentials.shopDomain,
+      nonces: createConfirmationNonceStore(env, credentials.shopDomain),
+    });
+  }
+  // Applied last so that it runs closest to the tool handler: a confirmed call is
+  // de-duplicated, while the unconfirmed first call is never remembered
+  server = applyIdempotency(
+    server,
+    createIdempotencyStore(env, credentials.shopDomain),
+    credentials.shopDomain
+  );
+
+  // Create client with tenant-specific credentials; every mutation is audited, and
+  // product, customer and inventory updates are snapshotted so they can be reverted
+  const auditSink = createAuditSink(env, credentials.shopDomain);
+  const changeStore = createChangeStore(env, credentials.shopDomain);
+  const client = createSnapshotClient(
+    createAuditedClient(
+      createShopifyClient(credentials, { retry: getRetryPolicy(env), cache }),
+      auditSink,
+      credentials.shopDomain
+    ),
+    changeStore,
+    { shopDomain: credentials.shopDomain, retentionSeconds: getChangeRetentionSeconds(env) }
+  );
+
+  // Tools that read stored per-shop data first prove the credentials belong to the shop
+  const checkShopAccess = createShopAccessCheck(client, credentials.shopDomain);
+
+  // Register all Shopify tools
+  registerShopTools(server, client);
+  registerProductTools(server, client);
+  registerImportTools(server, client);
+  registerCollectionTools(server, client);
+  registerOrderTools(server, client);
+  registerCustomerTools(server, client);
+  registerInventoryTools(server, client);
+  registerFulfillmentTools(server, client);
+  registerDraftOrderTools(server, client);
+  registerTransactionTools(server, client);
+  registerDiscountTools(server, client);
+  registerWebhookTools(server, client);
+  registerWebhookEventTools(
+    server,
+    createWebhookEventStore(env, credentials.shopDomain),
+    checkShopAccess
+  );
+  registerThemeTools(server, client);
+  registerMetafieldTools(server, client);
+  registerGraphqlTools(server, client);
+  registerBulkTools(server, client);
+  registerExportTools(server, client);
+  registerContinuationTools(server);
+  registerAuditTools(server, auditSink, checkShopAccess);
+  registerChangeTools(server, client, changeStore, checkShopAccess);
+}
+
+// =============================================================================
+// MCP Agent (Stateful - uses Durable Objects)
+// =============================================================================
+
+/**
+ * Props stored with each stateful session
+ */
+type SessionProps = {
+  credentials: TenantCredentials;
+  toolPolicy: ToolPolicy;
+};
+
+/**
+ * McpAgent provides stateful MCP sessions backed by Durable Objects, one per session.
  *
- * @deprecated For multi-tenant support, use stateless mode with per-request credentials
+ * Credentials and the tool policy are resolved once when the session starts (from a
+ * server key or the X-Shopify-* headers, and the X-MCP-Tool-* headers) and stored with
+ * the session. For the life of the session it keeps:
+ * - A response cache, so repeated reads do not spend the shop's call limit
+ * - Shop metadata, cached for an hour
+ * - The shop's call-limit and GraphQL cost trackers
  */
-export class ShopifyMcpAgent extends McpAgent<Env> {
+export class ShopifyMcpAgent extends McpAgent<Env, unknown, SessionProps> {
   server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
+  private cache = new ResponseCache();
+
   async init() {
-    // NOTE: Stateful mode requires credentials to be configured differently.
-    // For multi-tenant, use the stateless endpoint at /mcp instead.
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with X-Shopify-Access-Token and X-Shopify-Shop-Domain headers instead.'
-    );
+    const { credentials, toolPolicy } = this.props ?? {};
+    if (!credentials || !toolPolicy) {
+      throw new Error('Session was started without Shopify credentials.');
+    }
+    registerAllTools(this.server, credentials, toolPolicy, this.env, this.cache);
   }
 }
 
+/**
+ * Resolve tenant credentials from a server key or the X-Shopify-* headers
+ */
+async function resolveCredentials(request: Request, env: Env): Promise<TenantCredentials> {
+  const credentials =
+    (await resolveServerKeyCredentials(request, env)) ?? parseTenantCredentials(request);
+  validateCredentials(credentials);
+  return credentials;
+}
+
+function unauthorizedResponse(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Unauthorized',
+      message: error instanceof Error ? error.message : 'Invalid credentials',
+      required_headers: ['X-Shopify-Access-Token', 'X-Shopify-Shop-Domain'],
+      alternative_headers: ['Authorization: Bearer <server key>'],
+    }),
+    {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+function invalidToolPolicyResponse(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Invalid tool policy',
+      message: error instanceof Error ? error.message : 'Invalid X-MCP-Tool-* headers',
+    }),
+    {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Pass session props to McpAgent, which reads them from the execution context
+ */
+function withProps(ctx: ExecutionContext, props: SessionProps): ExecutionContext {
+  return {
+    waitUntil: (promise) => ctx.waitUntil(promise),
+    passThroughOnException: () => ctx.passThroughOnException(),
+    props,
+  };
+}
+
 // =============================================================================
 // Stateless MCP Server (Recommended - no Durable Objects needed)
 // =============================================================================
@@ -93,30 +265,20 @@ export class ShopifyMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple Shopify stores.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param toolPolicy - Tool policy parsed from request headers
+ * @param env - Worker environment (server-wide configuration)
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(
+  credentials: TenantCredentials,
+  toolPolicy: ToolPolicy,
+  env: Env
+): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
-  // Create client with tenant-specific credentials
-  const client = createShopifyClient(credentials);
-
-  // Register all Shopify tools
-  registerShopTools(server, client);
-  registerProductTools(server, client);
-  registerCollectionTools(server, client);
-  registerOrderTools(server, client);
-  registerCustomerTools(server, client);
-  registerInventoryTools(server, client);
-  registerFulfillmentTools(server, client);
-  registerDraftOrderTools(server, client);
-  registerTransactionTools(server, client);
-  registerDiscountTools(server, client);
-  registerWebhookTools(server, client);
-  registerThemeTools(server, client);
-  registerMetafieldTools(server, client);
+  registerAllTools(server, credentials, toolPolicy, env);
 
   return server;
 }
@@ -139,41 +301,73 @@ export default {
       });
     }
 
+    // OAuth install flow (issues server keys for /mcp)
+    if (url.pathname === '/auth/install' && request.method === 'GET') {
+      return handleOAuthInstall(request, env);
+    }
+    if (url.pathname === '/auth/callback' && request.method === 'GET') {
+      return handleOAuthCallback(request, env);
+    }
+
+    // Webhook deliveries from Shopify (verified per shop, no MCP credentials)
+    const webhookMatch = url.pathname.match(/^\/webhooks\/([^/]+)$/);
+    if (webhookMatch) {
+      return handleWebhookRequest(request, env, decodeURIComponent(webhookMatch[1]));
+    }
+
     // ==========================================================================
-    // Option 1: Stateful MCP with McpAgent (requires Durable Objects)
+    // Option 1: Stateful MCP over SSE with McpAgent (requires Durable Objects)
     // ==========================================================================
-    // Uncomment to use McpAgent for stateful sessions:
-    //
-    // if (url.pathname === '/sse' || url.pathname === '/mcp') {
-    //   return ShopifyMcpAgent.serveSSE('/sse').fetch(request, env, ctx);
-    // }
+    if (url.pathname === '/sse' || url.pathname.startsWith('/sse/')) {
+      if (!env.MCP_SESSIONS) {
+        return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
+          status: 501,
+        });
+      }
+      const handler = ShopifyMcpAgent.serveSSE('/sse', { binding: 'MCP_SESSIONS' });
+
+      // Messages for an existing session reuse the credentials stored with it
+      if (url.pathname !== '/sse') {
+        return handler.fetch(request, env, ctx);
+      }
+
+      let credentials: TenantCredentials;
+      try {
+        credentials = await resolveCredentials(request, env);
+      } catch (error) {
+        return unauthorizedResponse(error);
+      }
+      let toolPolicy: ToolPolicy;
+      try {
+        toolPolicy = parseToolPolicy(request, env);
+      } catch (error) {
+        return invalidToolPolicyResponse(error);
+      }
+      return handler.fetch(request, env, withProps(ctx, { credentials, toolPolicy }));
+    }
 
     // ==========================================================================
     // Option 2: Stateless MCP with Streamable HTTP (Recommended for multi-tenant)
     // ==========================================================================
     if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
+      // Resolve tenant credentials from a server key (OAuth installs) or request headers
+      let credentials: TenantCredentials;
+      try {
+        credentials = await resolveCredentials(request, env);
+      } catch (error) {
+        return unauthorizedResponse(error);
+      }
 
-      // Validate credentials are present
+      // Resolve which tools this caller may see from the X-MCP-Tool-* headers
+      let toolPolicy: ToolPolicy;
       try {
-        validateCredentials(credentials);
+        toolPolicy = parseToolPolicy(request, env);
       } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: 'Unauthorized',
-            message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: ['X-Shopify-Access-Token', 'X-Shopify-Shop-Domain'],
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
+        return invalidToolPolicyResponse(error);
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, toolPolicy, env);
 
       // Import and use createMcpHandler for streamable HTTP
       // This is the recommended approach for stateless MCP servers
@@ -182,15 +376,6 @@ export default {
       return handler(request, env, ctx);
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      // For SSE, we need to use McpAgent with serveSSE
-      // Enable Durable Objects in wrangler.jsonc to use this
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
-      });
-    }
-
     // Default response
     return new Response(
       JSON.stringify({
@@ -199,7 +384,10 @@ export default {
         description: 'Multi-tenant Shopify MCP Server',
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          sse: '/sse - Stateful SSE MCP endpoint (requires Durable Objects)',
           health: '/health - Health check',
+          webhooks: '/webhooks/:shop (POST) - Shopify webhook receiver',
+          install: '/auth/install?shop=:shop - OAuth app install',
         },
         authentication: {
           description: 'Pass tenant credentials via request headers',
@@ -209,23 +397,54 @@ export default {
           },
           optional_headers: {
             'X-Shopify-API-Version': 'API version (defaults to 2024-01)',
+            'X-MCP-Tool-Profile': 'readonly | support | merchandising | full (defaults to full)',
+            'X-MCP-Tool-Allow': 'Comma-separated tools to add to the profile (* wildcards)',
+            'X-MCP-Tool-Deny': 'Comma-separated tools to remove from the profile (* wildcards)',
+            'X-MCP-Require-Confirmation':
+              'true to require confirmation tokens for deletes, cancellations and refunds',
+          },
+          server_key: {
+            Authorization:
+              'Bearer <server key> issued by /auth/install, instead of the X-Shopify-* headers',
           },
         },
         available_tools: [
           // Shop
           'shopify_test_connection',
+          'shopify_get_rate_limit_status',
           'shopify_get_shop',
+          // GraphQL
+          'shopify_graphql_query',
+          // Bulk Operations
+          'shopify_start_bulk_export',
+          'shopify_get_bulk_operation_status',
+          'shopify_fetch_bulk_result',
+          // Exports
+          'shopify_export_products',
+          'shopify_export_orders',
+          'shopify_export_customers',
+          // Responses
+          'shopify_get_continuation',
+          // Audit & Undo
+          'shopify_list_audit_events',
+          'shopify_list_recent_changes',
+          'shopify_revert_change',
           // Products
           'shopify_list_products',
           'shopify_get_product',
           'shopify_create_product',
           'shopify_update_product',
+          'shopify_batch_update_products',
           'shopify_delete_product',
           'shopify_get_product_count',
           'shopify_list_product_variants',
           'shopify_get_variant',
+          'shopify_find_variant_by_sku',
+          'shopify_find_variant_by_barcode',
           'shopify_create_variant',
           'shopify_update_variant',
+          'shopify_batch_update_variants',
+          'shopify_import_products_csv',
           'shopify_delete_variant',
           'shopify_list_product_images',
           'shopify_create_product_image',
@@ -273,16 +492,26 @@ export default {
           'shopify_list_inventory_levels',
           'shopify_adjust_inventory_level',
           'shopify_set_inventory_level',
+          'shopify_transfer_inventory',
+          'shopify_get_product_inventory',
+          'shopify_low_stock_report',
+          'shopify_reconcile_stock_count',
           'shopify_get_inventory_item',
           'shopify_update_inventory_item',
           // Fulfillments
           'shopify_list_fulfillments',
           'shopify_get_fulfillment',
           'shopify_create_fulfillment',
+          'shopify_fulfill_line_items',
           'shopify_update_fulfillment_tracking',
           'shopify_cancel_fulfillment',
           'shopify_list_fulfillment_orders',
           'shopify_get_fulfillment_order',
+          'shopify_move_fulfillment_order',
+          'shopify_hold_fulfillment_order',
+          'shopify_release_fulfillment_order_hold',
+          'shopify_reschedule_fulfillment_order',
+          'shopify_cancel_fulfillment_order',
           // Draft Orders
           'shopify_list_draft_orders',
           'shopify_get_draft_order',
@@ -317,6 +546,8 @@ export default {
           'shopify_update_webhook',
           'shopify_delete_webhook',
           'shopify_get_webhook_count',
+          'shopify_list_received_webhook_events',
+          'shopify_get_webhook_event',
           // Themes & Assets
           'shopify_list_themes',
           'shopify_get_theme',
@@ -0,0 +1,239 @@
+/**
+ * OAuth Install Flow
+ *
+ * Implements Shopify's authorization code grant at /auth/install and
+ * /auth/callback. Access tokens are stored per shop in OAUTH_KV, and the shop is
+ * handed an opaque server key that /mcp callers send instead of the admin token.
+ *
+ * KV layout:
+ * - oauth-state:<nonce>       shop domain awaiting the callback (expires after 10 minutes)
+ * - oauth-token:<shop>        stored access token, granted scopes and current key hash
+ * - oauth-key:<sha256(key)>   shop domain a server key belongs to (removed on reinstall)
+ */
+
+import { type Env, isValidShopDomain, type TenantCredentials } from './types/env.js';
+import { AuthenticationError } from './utils/errors.js';
+import { sha256Hex, verifyQueryHmac } from './utils/hmac.js';
+
+/**
+ * OAuth settings
+ */
+export const OAUTH_DEFAULTS = {
+  /** Scopes requested when SHOPIFY_SCOPES is not set, covering every tool */
+  scopes: [
+    'read_products',
+    'write_products',
+    'read_orders',
+    'write_orders',
+    'read_draft_orders',
+    'write_draft_orders',
+    'read_customers',
+    'write_customers',
+    'read_inventory',
+    'write_inventory',
+    'read_locations',
+    'read_fulfillments',
+    'write_fulfillments',
+    'read_assigned_fulfillment_orders',
+    'write_assigned_fulfillment_orders',
+    'read_merchant_managed_fulfillment_orders',
+    'write_merchant_managed_fulfillment_orders',
+    'read_price_rules',
+    'write_price_rules',
+    'read_discounts',
+    'write_discounts',
+    'read_themes',
+    'write_themes',
+  ].join(','),
+  /** Seconds a state nonce stays valid between install and callback */
+  stateTtlSeconds: 600,
+  /** Seconds a callback timestamp may be old before it is rejected */
+  maxCallbackAgeSeconds: 3600,
+  /** Prefix of server-issued keys, used to tell them apart from admin tokens */
+  keyPrefix: 'smk_',
+  /** API version for key-authenticated requests without X-Shopify-API-Version */
+  apiVersion: '2024-01',
+} as const;
+
+/**
+ * Access token stored for an installed shop
+ */
+interface StoredToken {
+  accessToken: string;
+  scope: string;
+  installedAt: string;
+  /** Hash of the server key issued with this token; any other key for the shop is revoked */
+  keyHash: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function randomToken(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...values))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Check that OAuth is configured, returning an error response if not
+ */
+function getOAuthConfig(
+  env: Env
+): { kv: KVNamespace; apiKey: string; apiSecret: string } | Response {
+  if (!env.OAUTH_KV || !env.SHOPIFY_API_KEY || !env.SHOPIFY_API_SECRET) {
+    return jsonResponse(
+      {
+        error: 'OAuth is not configured',
+        message: 'Bind OAUTH_KV and set SHOPIFY_API_KEY and SHOPIFY_API_SECRET to enable OAuth.',
+      },
+      501
+    );
+  }
+  return { kv: env.OAUTH_KV, apiKey: env.SHOPIFY_API_KEY, apiSecret: env.SHOPIFY_API_SECRET };
+}
+
+/**
+ * Handle /auth/install?shop=<shop>: redirect the merchant to Shopify's consent screen
+ */
+export async function handleOAuthInstall(request: Request, env: Env): Promise<Response> {
+  const config = getOAuthConfig(env);
+  if (config instanceof Response) return config;
+
+  const url = new URL(request.url);
+  const shop = url.searchParams.get('shop')?.toLowerCase() || '';
+  if (!isValidShopDomain(shop)) {
+    return jsonResponse({ error: 'A valid shop parameter (*.myshopify.com) is required' }, 400);
+  }
+
+  const state = randomToken(24);
+  await config.kv.put(`oauth-state:${state}`, shop, {
+    expirationTtl: OAUTH_DEFAULTS.stateTtlSeconds,
+  });
+
+  const authorizeUrl = new URL(`https://${shop}/admin/oauth/authorize`);
+  authorizeUrl.searchParams.set('client_id', config.apiKey);
+  authorizeUrl.searchParams.set('scope', env.SHOPIFY_SCOPES || OAUTH_DEFAULTS.scopes);
+  authorizeUrl.searchParams.set('redirect_uri', `${url.origin}/auth/callback`);
+  authorizeUrl.searchParams.set('state', state);
+  return Response.redirect(authorizeUrl.toString(), 302);
+}
+
+/**
+ * Handle /auth/callback: verify the redirect, exchange the code for an access token,
+ * store it and issue a server key for the shop
+ */
+export async function handleOAuthCallback(request: Request, env: Env): Promise<Response> {
+  const config = getOAuthConfig(env);
+  if (config instanceof Response) return config;
+
+  const params = new URL(request.url).searchParams;
+  const shop = params.get('shop')?.toLowerCase() || '';
+  const code = params.get('code');
+  const state = params.get('state');
+  if (!isValidShopDomain(shop) || !code || !state) {
+    return jsonResponse({ error: 'Missing or invalid shop, code or state parameter' }, 400);
+  }
+
+  if (!(await verifyQueryHmac(params, config.apiSecret))) {
+    return jsonResponse({ error: 'Invalid OAuth signature' }, 401);
+  }
+  const timestamp = parseInt(params.get('timestamp') || '', 10);
+  if (
+    Number.isNaN(timestamp) ||
+    Math.abs(Date.now() / 1000 - timestamp) > OAUTH_DEFAULTS.maxCallbackAgeSeconds
+  ) {
+    return jsonResponse({ error: 'OAuth callback has expired' }, 401);
+  }
+
+  // The nonce is single-use and must belong to the shop that started the install
+  const stateKey = `oauth-state:${state}`;
+  const expectedShop = await config.kv.get(stateKey);
+  await config.kv.delete(stateKey);
+  if (expectedShop !== shop) {
+    return jsonResponse({ error: 'Unknown or expired OAuth state' }, 401);
+  }
+
+  const response = await fetch(`https://${shop}/admin/oauth/access_token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_id: config.apiKey,
+      client_secret: config.apiSecret,
+      code,
+    }),
+  });
+  if (!response.ok) {
+    return jsonResponse({ error: `Token exchange failed (${response.status})` }, 502);
+  }
+  const grant = (await response.json()) as { access_token: string; scope: string };
+
+  // Only a hash of the key is stored, so it is shown to the merchant once
+  const serverKey = `${OAUTH_DEFAULTS.keyPrefix}${randomToken(32)}`;
+  const keyHash = await sha256Hex(serverKey);
+  const previous = await config.kv.get<StoredToken>(`oauth-token:${shop}`, 'json');
+
+  const token: StoredToken = {
+    accessToken: grant.access_token,
+    scope: grant.scope,
+    installedAt: new Date().toISOString(),
+    keyHash,
+  };
+  await config.kv.put(`oauth-token:${shop}`, JSON.stringify(token));
+  await config.kv.put(`oauth-key:${keyHash}`, shop);
+
+  // Reinstalling revokes the key issued by the previous install
+  if (previous?.keyHash && previous.keyHash !== keyHash) {
+    await config.kv.delete(`oauth-key:${previous.keyHash}`);
+  }
+
+  return jsonResponse(
+    {
+      installed: true,
+      shop,
+      scope: token.scope,
+      serverKey,
+      usage: 'Send "Authorization: Bearer <serverKey>" to /mcp. This key is not shown again.',
+    },
+    200
+  );
+}
+
+/**
+ * Resolve tenant credentials from an "Authorization: Bearer <server key>" header.
+ *
+ * Returns null when the request carries no server key, so callers can fall back
+ * to the X-Shopify-* headers.
+ */
+export async function resolveServerKeyCredentials(
+  request: Request,
+  env: Env
+): Promise<TenantCredentials | null> {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(OAUTH_DEFAULTS.keyPrefix)) {
+    return null;
+  }
+  if (!env.OAUTH_KV) {
+    throw new AuthenticationError('Server keys require the OAUTH_KV binding.');
+  }
+
+  const keyHash = await sha256Hex(match[1]);
+  const shop = await env.OAUTH_KV.get(`oauth-key:${keyHash}`);
+  const token = shop ? await env.OAUTH_KV.get<StoredToken>(`oauth-token:${shop}`, 'json') : null;
+  // Only the key issued with the current token is valid; earlier keys are revoked
+  if (!shop || !token || token.keyHash !== keyHash) {
+    throw new AuthenticationError('Invalid server key.');
+  }
+
+  return {
+    accessToken: token.accessToken,
+    shopDomain: shop,
+    apiVersion: request.headers.get('X-Shopify-API-Version') || OAUTH_DEFAULTS.apiVersion,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Audit Tools
+ *
+ * MCP tools for reviewing mutations made through this server.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AuditSink } from '../utils/audit-log.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+import type { ShopAccessCheck } from '../utils/shop-access.js';
+
+/**
+ * Register audit tools. Events are only read once the caller's credentials are
+ * shown to belong to the shop.
+ */
+export function registerAuditTools(
+  server: McpServer,
+  sink: AuditSink,
+  checkAccess: ShopAccessCheck
+): void {
+  // ===========================================================================
+  // List Audit Events
+  // ===========================================================================
+  server.tool(
+    'shopify_list_audit_events',
+    `List mutations made through this server for the store, newest first.
+
+Each event records the tool and client operation, its arguments (secrets redacted),
+whether it succeeded, the ID of the affected entity and how long it took.
+
+Args:
+  - limit: Number of events to return (1-100, default: 20)
+  - cursor: Page cursor from a previous response's nextCursor
+  - tool: Filter by tool name (e.g., shopify_update_product)
+  - fields: Comma-separated fields to return
+  - format: Response format
+
+Returns:
+  Paginated list of audit events.`,
+    {
+      limit: z.number().int().min(1).max(100).default(20),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      tool: z.string().optional().describe('Filter by tool name'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ fields, format, ...params }) => {
+      try {
+        await checkAccess();
+        const result = await sink.list(params);
+        return formatResponse(projectFields(result, fields), format, 'auditEvents');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
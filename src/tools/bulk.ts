@@ -0,0 +1,170 @@
+/**
+ * Bulk Operation Tools
+ *
+ * MCP tools for exporting whole catalogs and order histories through
+ * Shopify bulk operations.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ShopifyClient } from '../client.js';
+import type { BulkResultEntity } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse, getResponseCharacterLimit } from '../utils/formatters.js';
+import { createPaginatedResponse } from '../utils/pagination.js';
+
+/**
+ * Pick how many entities fit in the character limit once serialized.
+ * At least one entity is always returned so that reading makes progress.
+ */
+function fitToCharacterLimit(entities: BulkResultEntity[], characterLimit: number): number {
+  let count = entities.length;
+  while (count > 1) {
+    const size = JSON.stringify(
+      entities.slice(0, count).map(({ entity }) => entity),
+      null,
+      2
+    ).length;
+    // Leave room for the pagination envelope
+    if (size <= characterLimit - 500) break;
+    count = Math.min(count - 1, Math.floor((count * characterLimit) / size));
+  }
+  return Math.max(count, Math.min(1, entities.length));
+}
+
+/**
+ * Register bulk operation tools
+ */
+export function registerBulkTools(server: McpServer, client: ShopifyClient): void {
+  // ===========================================================================
+  // Start Bulk Export
+  // ===========================================================================
+  server.tool(
+    'shopify_start_bulk_export',
+    `Start a bulk operation that exports all products or orders.
+
+Use this instead of paging through list tools for large stores. Shopify runs the
+export in the background; poll shopify_get_bulk_operation_status until it is
+COMPLETED, then read it with shopify_fetch_bulk_result. Only one bulk export can
+run per store at a time.
+
+Args:
+  - resource: What to export ('products' or 'orders')
+  - query: Shopify search syntax filter (e.g., "updated_at:>2024-01-01", "status:active")
+
+Returns:
+  The created bulk operation, including its ID and status.`,
+    {
+      resource: z.enum(['products', 'orders']).describe('Resource to export'),
+      query: z.string().optional().describe('Search filter in Shopify query syntax'),
+    },
+    async ({ resource, query }) => {
+      try {
+        const operation = await client.startBulkExport(resource, query);
+        return formatResponse(operation, 'json', 'bulkOperation');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Bulk Operation Status
+  // ===========================================================================
+  server.tool(
+    'shopify_get_bulk_operation_status',
+    `Get the status of a bulk operation.
+
+Args:
+  - operationId: Bulk operation ID (gid://shopify/BulkOperation/...). Defaults to the
+    store's most recent bulk operation.
+  - format: Response format
+
+Returns:
+  The bulk operation status, object count, file size and result URL once completed.`,
+    {
+      operationId: z.string().optional().describe('Bulk operation ID'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ operationId, format }) => {
+      try {
+        const operation = await client.getBulkOperation(operationId);
+        if (!operation) {
+          throw new ValidationError('No bulk operation found', {
+            operationId: ['No bulk operation found'],
+          });
+        }
+        return formatResponse(operation, format, 'bulkOperation');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Fetch Bulk Result
+  // ===========================================================================
+  server.tool(
+    'shopify_fetch_bulk_result',
+    `Read the result of a completed bulk export, one chunk at a time.
+
+Each call returns as many whole entities as fit in the response size limit, with
+child records (variants, images, line items) nested under their product or order.
+Pass nextCursor back to read the next chunk until hasMore is false.
+
+Args:
+  - operationId: Bulk operation ID. Defaults to the store's most recent bulk operation.
+  - cursor: Cursor from a previous response's nextCursor
+  - format: Response format
+
+Returns:
+  Paginated list of exported entities.`,
+    {
+      operationId: z.string().optional().describe('Bulk operation ID'),
+      cursor: z.string().regex(/^\d+$/).optional().describe('Cursor from a previous response'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ operationId, cursor, format }) => {
+      try {
+        const operation = await client.getBulkOperation(operationId);
+        if (!operation) {
+          throw new ValidationError('No bulk operation found', {
+            operationId: ['No bulk operation found'],
+          });
+        }
+        if (operation.status !== 'COMPLETED') {
+          throw new ValidationError(`Bulk operation is ${operation.status}, not COMPLETED`, {
+            operationId: [`Bulk operation is ${operation.status}`],
+          });
+        }
+        // Operations that matched nothing complete without a result file
+        if (!operation.url) {
+          return formatResponse(createPaginatedResponse([]), format, 'results');
+        }
+
+        const characterLimit = getResponseCharacterLimit();
+        const offset = cursor ? parseInt(cursor, 10) : 0;
+        const range = await client.readBulkResult(
+          operation.url,
+          offset,
+          Math.floor(characterLimit / 2)
+        );
+        const count = fitToCharacterLimit(range.entities, characterLimit);
+        const page = range.entities.slice(0, count);
+        const hasMore = count < range.entities.length || !range.complete;
+        const last = page[page.length - 1];
+
+        const result = createPaginatedResponse(
+          page.map(({ entity }) => entity),
+          {
+            hasMore,
+            nextCursor: hasMore && last ? String(last.nextOffset) : undefined,
+          }
+        );
+        return formatResponse(result, format, 'results');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
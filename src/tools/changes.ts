@@ -0,0 +1,181 @@
+/**
+ * Change History Tools
+ *
+ * MCP tools for reviewing and reverting product, customer and inventory updates
+ * made through this server.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ShopifyClient } from '../client.js';
+import type { ChangeRecord, CustomerUpdateInput, ProductUpdateInput } from '../types/entities.js';
+import { type ChangeStore, parseInventoryLevelId } from '../utils/change-history.js';
+import { diffFields } from '../utils/dry-run.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+import type { ShopAccessCheck } from '../utils/shop-access.js';
+
+/**
+ * Current values of a change's fields
+ */
+async function getCurrentValues(
+  client: ShopifyClient,
+  change: ChangeRecord
+): Promise<Record<string, unknown>> {
+  switch (change.entityType) {
+    case 'product':
+      return { ...(await client.getProduct(Number(change.entityId))) };
+    case 'customer':
+      return { ...(await client.getCustomer(Number(change.entityId))) };
+    case 'inventoryLevel': {
+      const { inventoryItemId, locationId } = parseInventoryLevelId(change.entityId);
+      const result = await client.listInventoryLevels({
+        inventoryItemIds: [inventoryItemId],
+        locationIds: [locationId],
+      });
+      return { available: result.items[0]?.available ?? null };
+    }
+  }
+}
+
+/**
+ * Write a change's before values back through the client
+ */
+async function restoreValues(client: ShopifyClient, change: ChangeRecord): Promise<unknown> {
+  switch (change.entityType) {
+    case 'product':
+      return client.updateProduct(Number(change.entityId), change.before as ProductUpdateInput);
+    case 'customer':
+      return client.updateCustomer(Number(change.entityId), change.before as CustomerUpdateInput);
+    case 'inventoryLevel': {
+      const { inventoryItemId, locationId } = parseInventoryLevelId(change.entityId);
+      const available = change.before.available;
+      if (typeof available !== 'number') {
+        throw new ValidationError('The item was not stocked at this location before the change', {
+          changeId: ['Inventory levels can only be reverted to a known quantity'],
+        });
+      }
+      return client.setInventoryLevel(inventoryItemId, locationId, available);
+    }
+  }
+}
+
+/**
+ * Register change history tools. Changes are only read once the caller's
+ * credentials are shown to belong to the shop.
+ */
+export function registerChangeTools(
+  server: McpServer,
+  client: ShopifyClient,
+  store: ChangeStore,
+  checkAccess: ShopAccessCheck
+): void {
+  // ===========================================================================
+  // List Recent Changes
+  // ===========================================================================
+  server.tool(
+    'shopify_list_recent_changes',
+    `List recent product, customer and inventory updates made through this server, newest first.
+
+Each change keeps the values from before the update for the retention window
+(CHANGE_RETENTION_SECONDS, 7 days by default) and can be undone with shopify_revert_change.
+
+Args:
+  - limit: Number of changes to return (1-100, default: 20)
+  - cursor: Page cursor from a previous response's nextCursor
+  - entityType: Filter by entity type (product, customer, inventoryLevel)
+  - entityId: Filter by entity ID (inventory levels use <inventoryItemId>@<locationId>)
+  - fields: Comma-separated fields to return
+  - format: Response format
+
+Returns:
+  Paginated list of change summaries (change ID, entity, tool, changed fields, time).`,
+    {
+      limit: z.number().int().min(1).max(100).default(20),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      entityType: z.enum(['product', 'customer', 'inventoryLevel']).optional(),
+      entityId: z.string().optional().describe('Filter by entity ID'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ fields, format, ...params }) => {
+      try {
+        await checkAccess();
+        const result = await store.list(params);
+        return formatResponse(projectFields(result, fields), format, 'changes');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Revert Change
+  // ===========================================================================
+  server.tool(
+    'shopify_revert_change',
+    `Undo a change listed by shopify_list_recent_changes by restoring the values from
+before it.
+
+The revert is refused if any of the changed fields were modified again since, unless
+force is set. Inventory levels are set back to the previous available quantity. The
+revert is itself recorded as a change.
+
+Args:
+  - changeId: Change ID from shopify_list_recent_changes
+  - force: Revert even if the fields were modified since the change (default: false)
+
+Returns:
+  The restored values and the updated entity.`,
+    {
+      changeId: z.string().describe('Change ID'),
+      force: z.boolean().optional().default(false),
+    },
+    async ({ changeId, force }) => {
+      try {
+        await checkAccess();
+        const change = await store.get(changeId);
+        if (!change) {
+          throw new NotFoundError('Change', changeId);
+        }
+        if (change.revertedAt) {
+          throw new ValidationError(`Change ${changeId} was already reverted`, {
+            changeId: [`Reverted at ${change.revertedAt}`],
+          });
+        }
+
+        const { changes: modifiedSince } = diffFields(
+          await getCurrentValues(client, change),
+          change.after
+        );
+        if (modifiedSince.length > 0 && !force) {
+          throw new ValidationError(
+            `${change.entityType} ${change.entityId} was modified after this change`,
+            Object.fromEntries(
+              modifiedSince.map(({ field, from, to }) => [
+                field,
+                [`Now ${JSON.stringify(from)}, the change set ${JSON.stringify(to)}`],
+              ])
+            )
+          );
+        }
+
+        const entity = await restoreValues(client, change);
+        await store.put({ ...change, revertedAt: new Date().toISOString() });
+        return formatResponse(
+          {
+            success: true,
+            message: `Reverted ${change.entityType} ${change.entityId}`,
+            restored: change.before,
+            entity,
+          },
+          'json',
+          change.entityType
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
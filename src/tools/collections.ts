@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register collection-related tools
@@ -24,11 +26,13 @@ Custom collections are manually curated product groups.
 
 Args:
   - limit: Number of collections to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return collections after this ID
   - title: Filter by title
   - productId: Filter by product
   - handle: Filter by handle
   - publishedStatus: Filter by published status
+  - fields: Comma-separated fields to return; nested paths like image.src are supported
   - format: Response format
 
 Returns:
@@ -41,17 +45,19 @@ Returns:
         .max(250)
         .default(50)
         .describe('Number of collections to return'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       title: z.string().optional(),
       productId: z.string().optional(),
       handle: z.string().optional(),
       publishedStatus: z.enum(['published', 'unpublished', 'any']).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listCustomCollections(params);
-        return formatResponse(result, format, 'customCollections');
+        return formatResponse(projectFields(result, params.fields), format, 'customCollections');
       } catch (error) {
         return formatError(error);
       }
@@ -67,18 +73,20 @@ Returns:
 
 Args:
   - collectionId: Collection ID
+  - fields: Comma-separated fields to return; nested paths like image.src are supported
   - format: Response format
 
 Returns:
   The custom collection details.`,
     {
       collectionId: z.number().describe('Collection ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ collectionId, format }) => {
+    async ({ collectionId, fields, format }) => {
       try {
         const collection = await client.getCustomCollection(collectionId);
-        return formatResponse(collection, format, 'customCollection');
+        return formatResponse(projectFields(collection, fields), format, 'customCollection');
       } catch (error) {
         return formatError(error);
       }
@@ -99,6 +107,7 @@ Args:
   - published: Whether to publish
   - sortOrder: Sort order (alpha-asc, alpha-desc, best-selling, created, created-desc, manual, price-asc, price-desc)
   - image: Image object with src or attachment
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created collection.`,
@@ -120,9 +129,13 @@ Returns:
         ])
         .optional(),
       image: z.object({ src: z.string().optional(), alt: z.string().optional() }).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('customCollection', input), 'json', 'collection');
+        }
         const collection = await client.createCustomCollection(input);
         return {
           content: [
@@ -156,6 +169,7 @@ Args:
   - handle: New handle
   - published: New published state
   - sortOrder: New sort order
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated collection.`,
@@ -177,9 +191,18 @@ Returns:
           'price-desc',
         ])
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ collectionId, ...input }) => {
+    async ({ collectionId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getCustomCollection(collectionId);
+          return formatResponse(
+            previewUpdate('customCollection', collectionId, current, input),
+            'json',
+            'collection'
+          );
+        }
         const collection = await client.updateCustomCollection(collectionId, input);
         return {
           content: [
@@ -208,14 +231,24 @@ Returns:
 
 Args:
   - collectionId: Collection ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       collectionId: z.number().describe('Collection ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ collectionId }) => {
+    async ({ collectionId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getCustomCollection(collectionId);
+          return formatResponse(
+            previewDelete('customCollection', collectionId, current),
+            'json',
+            'collection'
+          );
+        }
         await client.deleteCustomCollection(collectionId);
         return {
           content: [
@@ -246,28 +279,32 @@ Smart collections automatically include products based on rules.
 
 Args:
   - limit: Number of collections to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return collections after this ID
   - title: Filter by title
   - productId: Filter by product
   - handle: Filter by handle
   - publishedStatus: Filter by published status
+  - fields: Comma-separated fields to return; nested paths like rules.condition are supported
   - format: Response format
 
 Returns:
   Paginated list of smart collections.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       title: z.string().optional(),
       productId: z.string().optional(),
       handle: z.string().optional(),
       publishedStatus: z.enum(['published', 'unpublished', 'any']).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listSmartCollections(params);
-        return formatResponse(result, format, 'smartCollections');
+        return formatResponse(projectFields(result, params.fields), format, 'smartCollections');
       } catch (error) {
         return formatError(error);
       }
@@ -283,18 +320,20 @@ Returns:
 
 Args:
   - collectionId: Collection ID
+  - fields: Comma-separated fields to return; nested paths like rules.condition are supported
   - format: Response format
 
 Returns:
   The smart collection with its rules.`,
     {
       collectionId: z.number().describe('Collection ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ collectionId, format }) => {
+    async ({ collectionId, fields, format }) => {
       try {
         const collection = await client.getSmartCollection(collectionId);
-        return formatResponse(collection, format, 'smartCollection');
+        return formatResponse(projectFields(collection, fields), format, 'smartCollection');
       } catch (error) {
         return formatError(error);
       }
@@ -319,6 +358,7 @@ Args:
   - handle: URL handle
   - published: Whether to publish
   - sortOrder: Sort order
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created smart collection.`,
@@ -349,9 +389,13 @@ Returns:
           'price-desc',
         ])
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('smartCollection', input), 'json', 'collection');
+        }
         const collection = await client.createSmartCollection(input);
         return {
           content: [
@@ -387,6 +431,7 @@ Args:
   - handle: New handle
   - published: New published state
   - sortOrder: New sort order
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated smart collection.`,
@@ -418,9 +463,18 @@ Returns:
           'price-desc',
         ])
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ collectionId, ...input }) => {
+    async ({ collectionId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getSmartCollection(collectionId);
+          return formatResponse(
+            previewUpdate('smartCollection', collectionId, current, input),
+            'json',
+            'collection'
+          );
+        }
         const collection = await client.updateSmartCollection(collectionId, input);
         return {
           content: [
@@ -449,14 +503,24 @@ Returns:
 
 Args:
   - collectionId: Collection ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       collectionId: z.number().describe('Collection ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ collectionId }) => {
+    async ({ collectionId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getSmartCollection(collectionId);
+          return formatResponse(
+            previewDelete('smartCollection', collectionId, current),
+            'json',
+            'collection'
+          );
+        }
         await client.deleteSmartCollection(collectionId);
         return {
           content: [
@@ -485,18 +549,20 @@ Returns:
 
 Args:
   - collectionId: Collection ID
+  - fields: Comma-separated fields to return; nested paths like image.src are supported
   - format: Response format
 
 Returns:
   The collection details.`,
     {
       collectionId: z.number().describe('Collection ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ collectionId, format }) => {
+    async ({ collectionId, fields, format }) => {
       try {
         const collection = await client.getCollection(collectionId);
-        return formatResponse(collection, format, 'collection');
+        return formatResponse(projectFields(collection, fields), format, 'collection');
       } catch (error) {
         return formatError(error);
       }
@@ -513,6 +579,8 @@ Returns:
 Args:
   - collectionId: Collection ID
   - limit: Number of products to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return; nested paths like variants.sku are supported
   - format: Response format
 
 Returns:
@@ -520,12 +588,14 @@ Returns:
     {
       collectionId: z.number().describe('Collection ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ collectionId, limit, format }) => {
+    async ({ collectionId, limit, cursor, fields, format }) => {
       try {
-        const result = await client.listCollectionProducts(collectionId, { limit });
-        return formatResponse(result, format, 'products');
+        const result = await client.listCollectionProducts(collectionId, { limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'products');
       } catch (error) {
         return formatError(error);
       }
@@ -543,22 +613,26 @@ Collects link products to custom collections.
 
 Args:
   - limit: Number of collects to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - productId: Filter by product ID
   - collectionId: Filter by collection ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   List of collect relationships.`,
     {
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       productId: z.string().optional(),
       collectionId: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listCollects(params);
-        return formatResponse(result, format, 'collects');
+        return formatResponse(projectFields(result, params.fields), format, 'collects');
       } catch (error) {
         return formatError(error);
       }
@@ -576,6 +650,7 @@ Args:
   - productId: Product ID to add
   - collectionId: Collection ID to add to
   - position: Position in collection (optional)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created collect relationship.`,
@@ -583,9 +658,21 @@ Returns:
       productId: z.number().describe('Product ID'),
       collectionId: z.number().describe('Collection ID'),
       position: z.number().optional().describe('Position in collection'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const [product, collection] = await Promise.all([
+            client.getProduct(input.productId),
+            client.getCollection(input.collectionId),
+          ]);
+          const context = {
+            product: { id: product.id, title: product.title },
+            collection: { id: collection.id, title: collection.title },
+          };
+          return formatResponse(previewCreate('collect', input, context), 'json', 'collect');
+        }
         const collect = await client.createCollect(input);
         return {
           content: [
@@ -614,14 +701,20 @@ Returns:
 
 Args:
   - collectId: Collect ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       collectId: z.number().describe('Collect ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ collectId }) => {
+    async ({ collectId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getCollect(collectId);
+          return formatResponse(previewDelete('collect', collectId, current), 'json', 'collect');
+        }
         await client.deleteCollect(collectId);
         return {
           content: [
@@ -0,0 +1,43 @@
+/**
+ * Continuation Tools
+ *
+ * MCP tools for retrieving the remainder of truncated responses.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { formatContinuation, formatError } from '../utils/formatters.js';
+
+/**
+ * Register continuation tools
+ */
+export function registerContinuationTools(server: McpServer): void {
+  // ===========================================================================
+  // Get Continuation
+  // ===========================================================================
+  server.tool(
+    'shopify_get_continuation',
+    `Get the rest of a response that was truncated to the response size limit.
+
+Truncated lists include omittedCount and a continuationToken; other truncated
+responses end with a notice containing the token. Tokens can be used once and
+expire after 15 minutes.
+
+Args:
+  - continuationToken: Token from the truncated response
+
+Returns:
+  The next part of the response, in the original format. It may itself be
+  truncated with a new continuation token.`,
+    {
+      continuationToken: z.string().describe('Token from the truncated response'),
+    },
+    async ({ continuationToken }) => {
+      try {
+        return formatContinuation(continuationToken);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register customer-related tools
@@ -22,30 +24,34 @@ export function registerCustomerTools(server: McpServer, client: ShopifyClient):
 
 Args:
   - limit: Number of customers to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return customers after this ID
   - ids: Comma-separated list of customer IDs
   - createdAtMin: Minimum created date (ISO 8601)
   - createdAtMax: Maximum created date (ISO 8601)
   - updatedAtMin: Minimum updated date
   - updatedAtMax: Maximum updated date
+  - fields: Comma-separated fields to return; nested paths like default_address.city are supported
   - format: Response format
 
 Returns:
   Paginated list of customers.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       ids: z.string().optional(),
       createdAtMin: z.string().optional(),
       createdAtMax: z.string().optional(),
       updatedAtMin: z.string().optional(),
       updatedAtMax: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listCustomers(params);
-        return formatResponse(result, format, 'customers');
+        return formatResponse(projectFields(result, params.fields), format, 'customers');
       } catch (error) {
         return formatError(error);
       }
@@ -61,18 +67,20 @@ Returns:
 
 Args:
   - customerId: The customer ID
+  - fields: Comma-separated fields to return; nested paths like addresses.city are supported
   - format: Response format
 
 Returns:
   The customer with all details including addresses.`,
     {
       customerId: z.number().describe('Customer ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ customerId, format }) => {
+    async ({ customerId, fields, format }) => {
       try {
         const customer = await client.getCustomer(customerId);
-        return formatResponse(customer, format, 'customer');
+        return formatResponse(projectFields(customer, fields), format, 'customer');
       } catch (error) {
         return formatError(error);
       }
@@ -97,6 +105,7 @@ Args:
   - addresses: Array of address objects
   - sendEmailWelcome: Send welcome email
   - sendEmailInvite: Send account invite email
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created customer.`,
@@ -127,9 +136,13 @@ Returns:
         .optional(),
       sendEmailWelcome: z.boolean().optional(),
       sendEmailInvite: z.boolean().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('customer', input), 'json', 'customer');
+        }
         const customer = await client.createCustomer(input);
         return {
           content: [
@@ -165,6 +178,7 @@ Args:
   - note: New note
   - tags: New tags
   - acceptsMarketing: New marketing consent
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated customer.`,
@@ -177,9 +191,18 @@ Returns:
       note: z.string().optional(),
       tags: z.string().optional(),
       acceptsMarketing: z.boolean().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ customerId, ...input }) => {
+    async ({ customerId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getCustomer(customerId);
+          return formatResponse(
+            previewUpdate('customer', customerId, current, input),
+            'json',
+            'customer'
+          );
+        }
         const customer = await client.updateCustomer(customerId, input);
         return {
           content: [
@@ -210,14 +233,20 @@ Note: Customers with orders cannot be deleted.
 
 Args:
   - customerId: Customer ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       customerId: z.number().describe('Customer ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ customerId }) => {
+    async ({ customerId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getCustomer(customerId);
+          return formatResponse(previewDelete('customer', customerId, current), 'json', 'customer');
+        }
         await client.deleteCustomer(customerId);
         return {
           content: [
@@ -282,7 +311,9 @@ The query can search across multiple fields like email, name, etc.
 Args:
   - query: Search query (required)
   - limit: Number of results to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - order: Sort order (e.g., "last_order_date DESC")
+  - fields: Comma-separated fields to return; nested paths like default_address.city are supported
   - format: Response format
 
 Returns:
@@ -290,13 +321,15 @@ Returns:
     {
       query: z.string().describe('Search query'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       order: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.searchCustomers(params);
-        return formatResponse(result, format, 'customers');
+        return formatResponse(projectFields(result, params.fields), format, 'customers');
       } catch (error) {
         return formatError(error);
       }
@@ -313,7 +346,9 @@ Returns:
 Args:
   - customerId: Customer ID
   - limit: Number of orders to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - status: Order status filter (any, open, closed, cancelled)
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
@@ -321,13 +356,15 @@ Returns:
     {
       customerId: z.number().describe('Customer ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       status: z.enum(['any', 'open', 'closed', 'cancelled']).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ customerId, format, ...params }) => {
       try {
         const result = await client.getCustomerOrders(customerId, params);
-        return formatResponse(result, format, 'orders');
+        return formatResponse(projectFields(result, params.fields), format, 'orders');
       } catch (error) {
         return formatError(error);
       }
@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register discount-related tools
@@ -24,24 +26,28 @@ Price rules define discount logic (percentage off, fixed amount, buy X get Y, et
 
 Args:
   - limit: Number of price rules to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return price rules after this ID
   - startsAt: Filter by start date
   - endsAt: Filter by end date
+  - fields: Comma-separated fields to return; nested paths like prerequisite_subtotal_range.greater_than_or_equal_to are supported
   - format: Response format
 
 Returns:
   Paginated list of price rules.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       startsAt: z.string().optional(),
       endsAt: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listPriceRules(params);
-        return formatResponse(result, format, 'priceRules');
+        return formatResponse(projectFields(result, params.fields), format, 'priceRules');
       } catch (error) {
         return formatError(error);
       }
@@ -57,18 +63,20 @@ Returns:
 
 Args:
   - priceRuleId: Price rule ID
+  - fields: Comma-separated fields to return; nested paths like prerequisite_subtotal_range.greater_than_or_equal_to are supported
   - format: Response format
 
 Returns:
   The price rule details.`,
     {
       priceRuleId: z.number().describe('Price rule ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ priceRuleId, format }) => {
+    async ({ priceRuleId, fields, format }) => {
       try {
         const priceRule = await client.getPriceRule(priceRuleId);
-        return formatResponse(priceRule, format, 'priceRule');
+        return formatResponse(projectFields(priceRule, fields), format, 'priceRule');
       } catch (error) {
         return formatError(error);
       }
@@ -105,6 +113,7 @@ Args:
   - prerequisiteVariantIds: Required variant IDs
   - prerequisiteCollectionIds: Required collection IDs
   - prerequisiteCustomerIds: Required customer IDs
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created price rule.`,
@@ -133,9 +142,13 @@ Returns:
       prerequisiteVariantIds: z.array(z.number()).optional(),
       prerequisiteCollectionIds: z.array(z.number()).optional(),
       prerequisiteCustomerIds: z.array(z.number()).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('priceRule', input), 'json', 'priceRule');
+        }
         const priceRule = await client.createPriceRule(input);
         return {
           content: [
@@ -170,6 +183,7 @@ Args:
   - endsAt: New end date
   - usageLimit: New usage limit
   - oncePerCustomer: New once per customer setting
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated price rule.`,
@@ -181,9 +195,18 @@ Returns:
       endsAt: z.string().optional(),
       usageLimit: z.number().optional(),
       oncePerCustomer: z.boolean().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ priceRuleId, ...input }) => {
+    async ({ priceRuleId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getPriceRule(priceRuleId);
+          return formatResponse(
+            previewUpdate('priceRule', priceRuleId, current, input),
+            'json',
+            'priceRule'
+          );
+        }
         const priceRule = await client.updatePriceRule(priceRuleId, input);
         return {
           content: [
@@ -212,14 +235,24 @@ Returns:
 
 Args:
   - priceRuleId: Price rule ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       priceRuleId: z.number().describe('Price rule ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ priceRuleId }) => {
+    async ({ priceRuleId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getPriceRule(priceRuleId);
+          return formatResponse(
+            previewDelete('priceRule', priceRuleId, current),
+            'json',
+            'priceRule'
+          );
+        }
         await client.deletePriceRule(priceRuleId);
         return {
           content: [
@@ -250,22 +283,24 @@ Discount codes are the actual codes customers enter at checkout.
 
 Args:
   - priceRuleId: Price rule ID
+  - limit: Number of discount codes to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
-  List of discount codes.`,
+  Paginated list of discount codes.`,
     {
       priceRuleId: z.number().describe('Price rule ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ priceRuleId, format }) => {
+    async ({ priceRuleId, limit, cursor, fields, format }) => {
       try {
-        const discountCodes = await client.listDiscountCodes(priceRuleId);
-        return formatResponse(
-          { items: discountCodes, count: discountCodes.length, hasMore: false },
-          format,
-          'discountCodes'
-        );
+        const result = await client.listDiscountCodes(priceRuleId, { limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'discountCodes');
       } catch (error) {
         return formatError(error);
       }
@@ -282,6 +317,7 @@ Returns:
 Args:
   - priceRuleId: Price rule ID
   - discountCodeId: Discount code ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -289,12 +325,13 @@ Returns:
     {
       priceRuleId: z.number().describe('Price rule ID'),
       discountCodeId: z.number().describe('Discount code ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ priceRuleId, discountCodeId, format }) => {
+    async ({ priceRuleId, discountCodeId, fields, format }) => {
       try {
         const discountCode = await client.getDiscountCode(priceRuleId, discountCodeId);
-        return formatResponse(discountCode, format, 'discountCode');
+        return formatResponse(projectFields(discountCode, fields), format, 'discountCode');
       } catch (error) {
         return formatError(error);
       }
@@ -311,15 +348,26 @@ Returns:
 Args:
   - priceRuleId: Price rule ID
   - code: The discount code string (required, e.g., "SAVE10")
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created discount code.`,
     {
       priceRuleId: z.number().describe('Price rule ID'),
       code: z.string().describe('Discount code string'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ priceRuleId, code }) => {
+    async ({ priceRuleId, code, dryRun }) => {
       try {
+        if (dryRun) {
+          const priceRule = await client.getPriceRule(priceRuleId);
+          const context = { priceRule: { id: priceRule.id, title: priceRule.title } };
+          return formatResponse(
+            previewCreate('discountCode', { code }, context),
+            'json',
+            'discountCode'
+          );
+        }
         const discountCode = await client.createDiscountCode(priceRuleId, { code });
         return {
           content: [
@@ -350,6 +398,7 @@ Args:
   - priceRuleId: Price rule ID
   - discountCodeId: Discount code ID
   - code: New discount code string
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated discount code.`,
@@ -357,9 +406,18 @@ Returns:
       priceRuleId: z.number().describe('Price rule ID'),
       discountCodeId: z.number().describe('Discount code ID'),
       code: z.string().describe('New discount code string'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ priceRuleId, discountCodeId, code }) => {
+    async ({ priceRuleId, discountCodeId, code, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getDiscountCode(priceRuleId, discountCodeId);
+          return formatResponse(
+            previewUpdate('discountCode', discountCodeId, current, { code }),
+            'json',
+            'discountCode'
+          );
+        }
         const discountCode = await client.updateDiscountCode(priceRuleId, discountCodeId, code);
         return {
           content: [
@@ -389,15 +447,25 @@ Returns:
 Args:
   - priceRuleId: Price rule ID
   - discountCodeId: Discount code ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       priceRuleId: z.number().describe('Price rule ID'),
       discountCodeId: z.number().describe('Discount code ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ priceRuleId, discountCodeId }) => {
+    async ({ priceRuleId, discountCodeId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getDiscountCode(priceRuleId, discountCodeId);
+          return formatResponse(
+            previewDelete('discountCode', discountCodeId, current),
+            'json',
+            'discountCode'
+          );
+        }
         await client.deleteDiscountCode(priceRuleId, discountCodeId);
         return {
           content: [
@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register draft order-related tools
@@ -24,26 +26,30 @@ Draft orders are orders that haven't been completed yet.
 
 Args:
   - limit: Number of draft orders to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return draft orders after this ID
   - status: Filter by status (open, invoice_sent, completed)
   - updatedAtMin: Minimum updated date
   - updatedAtMax: Maximum updated date
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
   Paginated list of draft orders.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       status: z.enum(['open', 'invoice_sent', 'completed']).optional(),
       updatedAtMin: z.string().optional(),
       updatedAtMax: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listDraftOrders(params);
-        return formatResponse(result, format, 'draftOrders');
+        return formatResponse(projectFields(result, params.fields), format, 'draftOrders');
       } catch (error) {
         return formatError(error);
       }
@@ -59,18 +65,20 @@ Returns:
 
 Args:
   - draftOrderId: Draft order ID
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
   The draft order with all details.`,
     {
       draftOrderId: z.number().describe('Draft order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ draftOrderId, format }) => {
+    async ({ draftOrderId, fields, format }) => {
       try {
         const draftOrder = await client.getDraftOrder(draftOrderId);
-        return formatResponse(draftOrder, format, 'draftOrder');
+        return formatResponse(projectFields(draftOrder, fields), format, 'draftOrder');
       } catch (error) {
         return formatError(error);
       }
@@ -102,6 +110,7 @@ Args:
     - title: Discount title
     - value: Discount value
     - valueType: Type (fixed_amount or percentage)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created draft order.`,
@@ -153,9 +162,13 @@ Returns:
           valueType: z.enum(['fixed_amount', 'percentage']),
         })
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('draftOrder', input), 'json', 'draftOrder');
+        }
         const draftOrder = await client.createDraftOrder(input);
         return {
           content: [
@@ -192,6 +205,7 @@ Args:
   - note: New note
   - tags: New tags
   - appliedDiscount: New discount
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated draft order.`,
@@ -240,9 +254,18 @@ Returns:
           valueType: z.enum(['fixed_amount', 'percentage']),
         })
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ draftOrderId, ...input }) => {
+    async ({ draftOrderId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getDraftOrder(draftOrderId);
+          return formatResponse(
+            previewUpdate('draftOrder', draftOrderId, current, input),
+            'json',
+            'draftOrder'
+          );
+        }
         const draftOrder = await client.updateDraftOrder(draftOrderId, input);
         return {
           content: [
@@ -271,14 +294,24 @@ Returns:
 
 Args:
   - draftOrderId: Draft order ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       draftOrderId: z.number().describe('Draft order ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ draftOrderId }) => {
+    async ({ draftOrderId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getDraftOrder(draftOrderId);
+          return formatResponse(
+            previewDelete('draftOrder', draftOrderId, current),
+            'json',
+            'draftOrder'
+          );
+        }
         await client.deleteDraftOrder(draftOrderId);
         return {
           content: [
@@ -0,0 +1,257 @@
+/**
+ * Export Tools
+ *
+ * MCP tools for exporting products, orders and customers as flat CSV or JSONL
+ * files with a fixed column schema.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ShopifyClient } from '../client.js';
+import {
+  EXPORT_DEFAULTS,
+  EXPORT_FIELDS,
+  type ExportFormat,
+  exportCustomerLines,
+  exportOrderLines,
+  exportProductLines,
+} from '../utils/exports.js';
+import { formatError, formatLines, type ToolResponse } from '../utils/formatters.js';
+import { fetchAllPages } from '../utils/pagination.js';
+
+/**
+ * Arguments shared by every export tool
+ */
+const exportOptions = {
+  format: z.enum(['csv', 'jsonl']).default('csv').describe('File format'),
+  maxRecords: z
+    .number()
+    .int()
+    .min(1)
+    .max(EXPORT_DEFAULTS.maxRecordsLimit)
+    .default(EXPORT_DEFAULTS.maxRecords)
+    .describe(
+      `Most products, orders or customers to export (up to ${EXPORT_DEFAULTS.maxRecordsLimit}; use shopify_start_bulk_export for more)`
+    ),
+};
+
+/**
+ * Return an export file, chunked within the character limit
+ */
+function formatExport(
+  entityType: keyof typeof EXPORT_FIELDS,
+  lines: string[],
+  format: ExportFormat,
+  records: number,
+  complete: boolean
+): ToolResponse {
+  return formatLines(lines, {
+    export: entityType,
+    format,
+    records,
+    rows: format === 'csv' ? lines.length - 1 : lines.length,
+    complete,
+    ...(!complete && {
+      warning: `Stopped after ${records} ${entityType}. Narrow the filters, raise maxRecords, or use shopify_start_bulk_export for the full set.`,
+    }),
+  });
+}
+
+/**
+ * Register export tools
+ */
+export function registerExportTools(server: McpServer, client: ShopifyClient): void {
+  // ===========================================================================
+  // Export Products
+  // ===========================================================================
+  server.tool(
+    'shopify_export_products',
+    `Export products as a CSV or JSONL file, one row per variant.
+
+Reads every page of products matching the filters. Product columns are repeated on
+each variant row. The columns are always the same: productId, handle, title, vendor,
+productType, tags, status, publishedAt, createdAt, updatedAt, variantId, variantTitle,
+option1Name, option1, option2Name, option2, option3Name, option3, sku, barcode, price,
+compareAtPrice, inventoryItemId, inventoryQuantity, inventoryPolicy, weight, weightUnit,
+imageSrc.
+
+Args:
+  - status: Product status (active, archived, draft)
+  - vendor: Filter by vendor
+  - productType: Filter by product type
+  - collectionId: Filter by collection ID
+  - updatedAtMin: Only products updated after this date (ISO 8601)
+  - format: File format ('csv' or 'jsonl', default: csv)
+  - maxRecords: Most products to export (1-${EXPORT_DEFAULTS.maxRecordsLimit}, default: ${EXPORT_DEFAULTS.maxRecords})
+
+Returns:
+  The file, in whole lines up to the response size limit, followed by a description
+  (record and row counts, whether the export is complete). Longer files include a
+  continuationToken; pass it to shopify_get_continuation for the next chunk.`,
+    {
+      status: z.enum(['active', 'archived', 'draft']).optional(),
+      vendor: z.string().optional(),
+      productType: z.string().optional(),
+      collectionId: z.string().optional(),
+      updatedAtMin: z.string().optional(),
+      ...exportOptions,
+    },
+    async ({ format, maxRecords, ...filters }) => {
+      try {
+        const { items, complete } = await fetchAllPages(
+          (cursor) =>
+            client.listProducts({
+              ...filters,
+              limit: EXPORT_DEFAULTS.pageSize,
+              fields: EXPORT_FIELDS.products,
+              cursor,
+            }),
+          maxRecords
+        );
+        return formatExport(
+          'products',
+          exportProductLines(items, format),
+          format,
+          items.length,
+          complete
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Export Orders
+  // ===========================================================================
+  server.tool(
+    'shopify_export_orders',
+    `Export orders as a CSV or JSONL file, one row per line item.
+
+Reads every page of orders matching the filters. Order columns, including the
+shipping address, are repeated on each line item row. The columns are always the
+same: orderId, name, orderNumber, createdAt, processedAt, cancelledAt, email,
+customerId, financialStatus, fulfillmentStatus, currency, subtotalPrice,
+totalDiscounts, totalTax, totalPrice, tags, shippingName, shippingAddress1,
+shippingAddress2, shippingCity, shippingProvinceCode, shippingCountryCode, shippingZip,
+lineItemId, productId, variantId, sku, lineItemTitle, variantTitle, quantity, price,
+lineItemDiscount, lineItemFulfillmentStatus.
+
+Args:
+  - status: Order status (open, closed, cancelled, any; default: any)
+  - financialStatus: Financial status (authorized, pending, paid, partially_paid, refunded, voided, partially_refunded, any, unpaid)
+  - fulfillmentStatus: Fulfillment status (shipped, partial, unshipped, any, unfulfilled)
+  - createdAtMin: Minimum created date (ISO 8601)
+  - createdAtMax: Maximum created date (ISO 8601)
+  - updatedAtMin: Minimum updated date
+  - format: File format ('csv' or 'jsonl', default: csv)
+  - maxRecords: Most orders to export (1-${EXPORT_DEFAULTS.maxRecordsLimit}, default: ${EXPORT_DEFAULTS.maxRecords})
+
+Returns:
+  The file, in whole lines up to the response size limit, followed by a description
+  (record and row counts, whether the export is complete). Longer files include a
+  continuationToken; pass it to shopify_get_continuation for the next chunk.`,
+    {
+      status: z.enum(['open', 'closed', 'cancelled', 'any']).default('any'),
+      financialStatus: z
+        .enum([
+          'authorized',
+          'pending',
+          'paid',
+          'partially_paid',
+          'refunded',
+          'voided',
+          'partially_refunded',
+          'any',
+          'unpaid',
+        ])
+        .optional(),
+      fulfillmentStatus: z
+        .enum(['shipped', 'partial', 'unshipped', 'any', 'unfulfilled'])
+        .optional(),
+      createdAtMin: z.string().optional(),
+      createdAtMax: z.string().optional(),
+      updatedAtMin: z.string().optional(),
+      ...exportOptions,
+    },
+    async ({ format, maxRecords, ...filters }) => {
+      try {
+        const { items, complete } = await fetchAllPages(
+          (cursor) =>
+            client.listOrders({
+              ...filters,
+              limit: EXPORT_DEFAULTS.pageSize,
+              fields: EXPORT_FIELDS.orders,
+              cursor,
+            }),
+          maxRecords
+        );
+        return formatExport(
+          'orders',
+          exportOrderLines(items, format),
+          format,
+          items.length,
+          complete
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Export Customers
+  // ===========================================================================
+  server.tool(
+    'shopify_export_customers',
+    `Export customers as a CSV or JSONL file, one row per address.
+
+Reads every page of customers matching the filters. Customer columns are repeated on
+each address row; customers without addresses get one row. The columns are always
+the same: customerId, email, firstName, lastName, phone, state, ordersCount,
+totalSpent, currency, tags, acceptsMarketing, taxExempt, createdAt, updatedAt,
+addressId, addressDefault, company, address1, address2, city, provinceCode,
+countryCode, zip, addressPhone.
+
+Args:
+  - createdAtMin: Minimum created date (ISO 8601)
+  - createdAtMax: Maximum created date (ISO 8601)
+  - updatedAtMin: Minimum updated date
+  - format: File format ('csv' or 'jsonl', default: csv)
+  - maxRecords: Most customers to export (1-${EXPORT_DEFAULTS.maxRecordsLimit}, default: ${EXPORT_DEFAULTS.maxRecords})
+
+Returns:
+  The file, in whole lines up to the response size limit, followed by a description
+  (record and row counts, whether the export is complete). Longer files include a
+  continuationToken; pass it to shopify_get_continuation for the next chunk.`,
+    {
+      createdAtMin: z.string().optional(),
+      createdAtMax: z.string().optional(),
+      updatedAtMin: z.string().optional(),
+      ...exportOptions,
+    },
+    async ({ format, maxRecords, ...filters }) => {
+      try {
+        const { items, complete } = await fetchAllPages(
+          (cursor) =>
+            client.listCustomers({
+              ...filters,
+              limit: EXPORT_DEFAULTS.pageSize,
+              fields: EXPORT_FIELDS.customers,
+              cursor,
+            }),
+          maxRecords
+        );
+        return formatExport(
+          'customers',
+          exportCustomerLines(items, format),
+          format,
+          items.length,
+          complete
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
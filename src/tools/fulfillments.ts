@@ -7,7 +7,176 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import type { FulfillmentCreateInput, FulfillmentOrder } from '../types/entities.js';
+import { previewCreate, previewUpdate } from '../utils/dry-run.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+
+/**
+ * Current tracking of a fulfillment. REST only serves fulfillments under their
+ * order, so this looks the fulfillment up by ID through GraphQL.
+ */
+async function getFulfillmentTracking(
+  client: ShopifyClient,
+  fulfillmentId: number
+): Promise<{ number: string | null; url: string | null; company: string | null } | null> {
+  const data = await client.graphql<{
+    fulfillment: {
+      trackingInfo: Array<{ number: string | null; url: string | null; company: string | null }>;
+    } | null;
+  }>(
+    `query FulfillmentTracking($id: ID!) {
+  fulfillment(id: $id) { trackingInfo(first: 1) { number url company } }
+}`,
+    { id: `gid://shopify/Fulfillment/${fulfillmentId}` }
+  );
+  if (!data.fulfillment) {
+    throw new NotFoundError('Fulfillment', String(fulfillmentId));
+  }
+  return data.fulfillment.trackingInfo[0] ?? null;
+}
+
+/**
+ * A fulfillment order action Shopify lists in supportedActions
+ */
+type FulfillmentOrderAction =
+  | 'create_fulfillment'
+  | 'move'
+  | 'hold'
+  | 'release_hold'
+  | 'cancel_fulfillment_order';
+
+/**
+ * Check a fulfillment order allows an action. Shopify rejects the action itself
+ * otherwise; previews check it so they do not promise a change that would fail.
+ */
+function assertSupportedAction(
+  fulfillmentOrder: FulfillmentOrder,
+  action: FulfillmentOrderAction
+): void {
+  if (!fulfillmentOrder.supportedActions.includes(action)) {
+    throw new ValidationError(
+      `Fulfillment order ${fulfillmentOrder.id} is ${fulfillmentOrder.status} and does not support ${action}`,
+      {
+        fulfillmentOrderId: [
+          `Supported actions: ${fulfillmentOrder.supportedActions.join(', ') || 'none'}`,
+        ],
+      }
+    );
+  }
+}
+
+/**
+ * Group selected line items by fulfillment order. A selection by order line item
+ * is spread over its fulfillment order line items in order. Every selection must
+ * be fulfillable, and all of them at one location, since a fulfillment ships
+ * from a single location.
+ */
+function selectLineItems(
+  fulfillmentOrders: FulfillmentOrder[],
+  selections: { fulfillmentOrderLineItemId?: number; lineItemId?: number; quantity: number }[]
+): {
+  locationId: number;
+  lineItemsByFulfillmentOrder: FulfillmentCreateInput['lineItemsByFulfillmentOrder'];
+} {
+  const details: Record<string, string[]> = {};
+  const selected = new Map<number, { fulfillmentOrder: FulfillmentOrder; quantity: number }>();
+  const lineItems = fulfillmentOrders.flatMap((fulfillmentOrder) =>
+    fulfillmentOrder.lineItems.map((lineItem) => ({ fulfillmentOrder, lineItem }))
+  );
+
+  selections.forEach(({ fulfillmentOrderLineItemId, lineItemId, quantity }, index) => {
+    const fail = (message: string) => {
+      details[`lineItems[${index}]`] = [message];
+    };
+    if ((fulfillmentOrderLineItemId === undefined) === (lineItemId === undefined)) {
+      fail('Provide either fulfillmentOrderLineItemId or lineItemId');
+      return;
+    }
+    const label =
+      fulfillmentOrderLineItemId !== undefined
+        ? `Fulfillment order line item ${fulfillmentOrderLineItemId}`
+        : `Line item ${lineItemId}`;
+    const matches = lineItems.filter(({ lineItem }) =>
+      fulfillmentOrderLineItemId !== undefined
+        ? lineItem.id === fulfillmentOrderLineItemId
+        : lineItem.lineItemId === lineItemId
+    );
+    if (matches.length === 0) {
+      fail(`${label} is not on this order's fulfillment orders`);
+      return;
+    }
+    const open = matches.filter(({ fulfillmentOrder }) =>
+      fulfillmentOrder.supportedActions.includes('create_fulfillment')
+    );
+    if (open.length === 0) {
+      const statuses = [...new Set(matches.map(({ fulfillmentOrder }) => fulfillmentOrder.status))];
+      fail(`${label} is on a fulfillment order that cannot be fulfilled (${statuses.join(', ')})`);
+      return;
+    }
+
+    let remaining = quantity;
+    const taken: { id: number; fulfillmentOrder: FulfillmentOrder; quantity: number }[] = [];
+    for (const { fulfillmentOrder, lineItem } of open) {
+      const free = lineItem.fulfillableQuantity - (selected.get(lineItem.id)?.quantity ?? 0);
+      const take = Math.min(remaining, free);
+      if (take > 0) {
+        taken.push({ id: lineItem.id, fulfillmentOrder, quantity: take });
+        remaining -= take;
+      }
+    }
+    if (remaining > 0) {
+      fail(`${label}: only ${quantity - remaining} of ${quantity} can still be fulfilled`);
+      return;
+    }
+    for (const { id, fulfillmentOrder, quantity: take } of taken) {
+      selected.set(id, { fulfillmentOrder, quantity: (selected.get(id)?.quantity ?? 0) + take });
+    }
+  });
+
+  const locationIds = [
+    ...new Set(
+      [...selected.values()].map(({ fulfillmentOrder }) => fulfillmentOrder.assignedLocationId)
+    ),
+  ];
+  if (Object.keys(details).length === 0 && locationIds.length > 1) {
+    details.lineItems = [
+      `Selected items ship from ${locationIds.length} locations (${locationIds.join(', ')}); fulfill each location in its own call with its own tracking`,
+    ];
+  }
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Line items cannot be fulfilled; nothing was changed', details);
+  }
+
+  const byFulfillmentOrder = new Map<number, { id: number; quantity: number }[]>();
+  for (const [id, { fulfillmentOrder, quantity }] of selected) {
+    const items = byFulfillmentOrder.get(fulfillmentOrder.id) ?? [];
+    items.push({ id, quantity });
+    byFulfillmentOrder.set(fulfillmentOrder.id, items);
+  }
+  return {
+    locationId: locationIds[0],
+    lineItemsByFulfillmentOrder: [...byFulfillmentOrder].map(
+      ([fulfillmentOrderId, fulfillmentOrderLineItems]) => ({
+        fulfillmentOrderId,
+        fulfillmentOrderLineItems,
+      })
+    ),
+  };
+}
+
+/**
+ * Fulfillment order line items and quantities an action applies to
+ */
+const fulfillmentOrderLineItems = z
+  .array(
+    z.object({
+      id: z.number().describe('Fulfillment order line item ID'),
+      quantity: z.number().int().min(1),
+    })
+  )
+  .min(1);
 
 /**
  * Register fulfillment-related tools
@@ -23,6 +192,8 @@ export function registerFulfillmentTools(server: McpServer, client: ShopifyClien
 Args:
   - orderId: Order ID
   - limit: Number of fulfillments to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
@@ -30,12 +201,14 @@ Returns:
     {
       orderId: z.number().describe('Order ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, limit, format }) => {
+    async ({ orderId, limit, cursor, fields, format }) => {
       try {
-        const result = await client.listFulfillments(orderId, { limit });
-        return formatResponse(result, format, 'fulfillments');
+        const result = await client.listFulfillments(orderId, { limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'fulfillments');
       } catch (error) {
         return formatError(error);
       }
@@ -52,6 +225,7 @@ Returns:
 Args:
   - orderId: Order ID
   - fulfillmentId: Fulfillment ID
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
@@ -59,12 +233,13 @@ Returns:
     {
       orderId: z.number().describe('Order ID'),
       fulfillmentId: z.number().describe('Fulfillment ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, fulfillmentId, format }) => {
+    async ({ orderId, fulfillmentId, fields, format }) => {
       try {
         const fulfillment = await client.getFulfillment(orderId, fulfillmentId);
-        return formatResponse(fulfillment, format, 'fulfillment');
+        return formatResponse(projectFields(fulfillment, fields), format, 'fulfillment');
       } catch (error) {
         return formatError(error);
       }
@@ -89,6 +264,7 @@ Args:
     - url: Tracking URL
     - company: Shipping company
   - notifyCustomer: Whether to send shipping notification
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created fulfillment.`,
@@ -116,9 +292,115 @@ Returns:
         })
         .optional(),
       notifyCustomer: z.boolean().optional().default(true),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const fulfillmentOrders = await Promise.all(
+            input.lineItemsByFulfillmentOrder.map(({ fulfillmentOrderId }) =>
+              client.getFulfillmentOrder(fulfillmentOrderId)
+            )
+          );
+          const context = {
+            fulfillmentOrders: fulfillmentOrders.map(({ id, orderId, status, lineItems }) => ({
+              id,
+              orderId,
+              status,
+              lineItems,
+            })),
+          };
+          return formatResponse(
+            previewCreate('fulfillment', input, context),
+            'json',
+            'fulfillment'
+          );
+        }
+        const fulfillment = await client.createFulfillment(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment created', fulfillment },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Fulfill Line Items
+  // ===========================================================================
+  server.tool(
+    'shopify_fulfill_line_items',
+    `Fulfill selected line items of an order, in the quantities given, with tracking.
+
+Reads the order's fulfillment orders and maps each selection to fulfillment order line
+items. Select by fulfillment order line item ID, or by order line item ID to fulfill
+it from whichever fulfillment orders still have it open. Quantities may be partial.
+All selected items must ship from one location; fulfill other locations in separate
+calls with their own tracking. Nothing is fulfilled if any selection is invalid.
+
+Args:
+  - orderId: Order ID
+  - lineItems: Items to fulfill, each with fulfillmentOrderLineItemId or lineItemId,
+    and quantity
+  - trackingInfo: Tracking information object
+    - number: Tracking number
+    - url: Tracking URL
+    - company: Shipping company
+  - notifyCustomer: Whether to send shipping notification (default: true)
+  - dryRun: Show the fulfillment that would be created without creating it
+
+Returns:
+  The created fulfillment.`,
+    {
+      orderId: z.number().describe('Order ID'),
+      lineItems: z
+        .array(
+          z.object({
+            fulfillmentOrderLineItemId: z
+              .number()
+              .optional()
+              .describe('Fulfillment order line item ID'),
+            lineItemId: z.number().optional().describe('Order line item ID'),
+            quantity: z.number().int().min(1).describe('Quantity to fulfill'),
+          })
+        )
+        .min(1)
+        .describe('Line items to fulfill'),
+      trackingInfo: z
+        .object({
+          number: z.string().optional(),
+          url: z.string().optional(),
+          company: z.string().optional(),
+        })
+        .optional(),
+      notifyCustomer: z.boolean().optional().default(true),
+      dryRun: z.boolean().optional().describe('Preview the fulfillment without creating it'),
+    },
+    async ({ orderId, lineItems, dryRun, ...options }) => {
+      try {
+        const fulfillmentOrders = await client.listFulfillmentOrders(orderId);
+        const { locationId, lineItemsByFulfillmentOrder } = selectLineItems(
+          fulfillmentOrders,
+          lineItems
+        );
+        const input = { lineItemsByFulfillmentOrder, ...options };
+        if (dryRun) {
+          return formatResponse(
+            previewCreate('fulfillment', input, { orderId, locationId }),
+            'json',
+            'fulfillment'
+          );
+        }
         const fulfillment = await client.createFulfillment(input);
         return {
           content: [
@@ -152,6 +434,7 @@ Args:
     - url: Tracking URL
     - company: Shipping company
   - notifyCustomer: Whether to notify customer of update
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated fulfillment.`,
@@ -163,9 +446,23 @@ Returns:
         company: z.string().optional(),
       }),
       notifyCustomer: z.boolean().optional().default(false),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ fulfillmentId, ...input }) => {
+    async ({ fulfillmentId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await getFulfillmentTracking(client, fulfillmentId);
+          return formatResponse(
+            previewUpdate(
+              'fulfillment',
+              fulfillmentId,
+              { trackingInfo: current },
+              { trackingInfo: input.trackingInfo }
+            ),
+            'json',
+            'fulfillment'
+          );
+        }
         const fulfillment = await client.updateFulfillmentTracking(fulfillmentId, input);
         return {
           content: [
@@ -232,19 +529,24 @@ Fulfillment orders represent groups of items to be fulfilled together.
 
 Args:
   - orderId: Order ID
+  - fields: Comma-separated fields to return; nested paths like destination.city are supported
   - format: Response format
 
 Returns:
   List of fulfillment orders with their line items.`,
     {
       orderId: z.number().describe('Order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, format }) => {
+    async ({ orderId, fields, format }) => {
       try {
         const fulfillmentOrders = await client.listFulfillmentOrders(orderId);
         return formatResponse(
-          { items: fulfillmentOrders, count: fulfillmentOrders.length, hasMore: false },
+          projectFields(
+            { items: fulfillmentOrders, count: fulfillmentOrders.length, hasMore: false },
+            fields
+          ),
           format,
           'fulfillmentOrders'
         );
@@ -263,18 +565,324 @@ Returns:
 
 Args:
   - fulfillmentOrderId: Fulfillment order ID
+  - fields: Comma-separated fields to return; nested paths like destination.city are supported
   - format: Response format
 
 Returns:
   The fulfillment order details.`,
     {
       fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ fulfillmentOrderId, format }) => {
+    async ({ fulfillmentOrderId, fields, format }) => {
       try {
         const fulfillmentOrder = await client.getFulfillmentOrder(fulfillmentOrderId);
-        return formatResponse(fulfillmentOrder, format, 'fulfillmentOrder');
+        return formatResponse(projectFields(fulfillmentOrder, fields), format, 'fulfillmentOrder');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Move Fulfillment Order
+  // ===========================================================================
+  server.tool(
+    'shopify_move_fulfillment_order',
+    `Move a fulfillment order to another location, e.g. when the assigned location is
+out of stock.
+
+Moving only some line items splits the fulfillment order: the moved items get a new
+fulfillment order at the new location and the rest stay where they are.
+
+Args:
+  - fulfillmentOrderId: Fulfillment order ID
+  - newLocationId: Location to fulfill from
+  - lineItems: Line items to move, as { id, quantity } (default: all)
+  - dryRun: Preview a field-level diff of the change without applying it
+
+Returns:
+  The original, moved and remaining fulfillment orders.`,
+    {
+      fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
+      newLocationId: z.number().describe('Destination location ID'),
+      lineItems: fulfillmentOrderLineItems.optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
+    },
+    async ({ fulfillmentOrderId, newLocationId, lineItems, dryRun }) => {
+      try {
+        if (dryRun) {
+          const current = await client.getFulfillmentOrder(fulfillmentOrderId);
+          assertSupportedAction(current, 'move');
+          return formatResponse(
+            previewUpdate(
+              'fulfillmentOrder',
+              fulfillmentOrderId,
+              current,
+              { assignedLocationId: newLocationId },
+              lineItems ? { lineItems } : undefined
+            ),
+            'json',
+            'fulfillmentOrder'
+          );
+        }
+        const result = await client.moveFulfillmentOrder(
+          fulfillmentOrderId,
+          newLocationId,
+          lineItems
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment order moved', ...result },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Hold Fulfillment Order
+  // ===========================================================================
+  server.tool(
+    'shopify_hold_fulfillment_order',
+    `Put a fulfillment order on hold so it is not fulfilled until the hold is released.
+
+Args:
+  - fulfillmentOrderId: Fulfillment order ID
+  - reason: Why it is held (awaiting_payment, high_risk_of_fraud, incorrect_address,
+    inventory_out_of_stock, other)
+  - reasonNotes: Notes about the hold
+  - notifyMerchant: Whether to notify the merchant
+  - lineItems: Line items to hold, as { id, quantity } (default: all)
+  - dryRun: Preview a field-level diff of the change without applying it
+
+Returns:
+  The held fulfillment order.`,
+    {
+      fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
+      reason: z.enum([
+        'awaiting_payment',
+        'high_risk_of_fraud',
+        'incorrect_address',
+        'inventory_out_of_stock',
+        'other',
+      ]),
+      reasonNotes: z.string().optional(),
+      notifyMerchant: z.boolean().optional(),
+      lineItems: fulfillmentOrderLineItems.optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
+    },
+    async ({ fulfillmentOrderId, lineItems, dryRun, ...hold }) => {
+      try {
+        if (dryRun) {
+          const current = await client.getFulfillmentOrder(fulfillmentOrderId);
+          assertSupportedAction(current, 'hold');
+          return formatResponse(
+            previewUpdate(
+              'fulfillmentOrder',
+              fulfillmentOrderId,
+              current,
+              {
+                status: 'on_hold',
+                fulfillmentHolds: [
+                  ...current.fulfillmentHolds,
+                  { reason: hold.reason, reasonNotes: hold.reasonNotes ?? '' },
+                ],
+              },
+              lineItems ? { lineItems } : undefined
+            ),
+            'json',
+            'fulfillmentOrder'
+          );
+        }
+        const fulfillmentOrder = await client.holdFulfillmentOrder(fulfillmentOrderId, {
+          ...hold,
+          fulfillmentOrderLineItems: lineItems,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment order held', fulfillmentOrder },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Release Fulfillment Order Hold
+  // ===========================================================================
+  server.tool(
+    'shopify_release_fulfillment_order_hold',
+    `Release the holds on a fulfillment order so it can be fulfilled.
+
+Args:
+  - fulfillmentOrderId: Fulfillment order ID
+  - dryRun: Preview a field-level diff of the change without applying it
+
+Returns:
+  The released fulfillment order.`,
+    {
+      fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
+    },
+    async ({ fulfillmentOrderId, dryRun }) => {
+      try {
+        if (dryRun) {
+          const current = await client.getFulfillmentOrder(fulfillmentOrderId);
+          assertSupportedAction(current, 'release_hold');
+          return formatResponse(
+            previewUpdate('fulfillmentOrder', fulfillmentOrderId, current, {
+              status: 'open',
+              fulfillmentHolds: [],
+            }),
+            'json',
+            'fulfillmentOrder'
+          );
+        }
+        const fulfillmentOrder = await client.releaseFulfillmentOrderHold(fulfillmentOrderId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment order hold released', fulfillmentOrder },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Reschedule Fulfillment Order
+  // ===========================================================================
+  server.tool(
+    'shopify_reschedule_fulfillment_order',
+    `Change when a scheduled fulfillment order becomes ready to fulfill, e.g. for
+prepaid subscriptions or pre-orders.
+
+Only fulfillment orders with status scheduled can be rescheduled.
+
+Args:
+  - fulfillmentOrderId: Fulfillment order ID
+  - fulfillAt: New date and time it becomes ready to fulfill (ISO 8601)
+  - dryRun: Preview a field-level diff of the change without applying it
+
+Returns:
+  The rescheduled fulfillment order.`,
+    {
+      fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
+      fulfillAt: z.string().describe('New fulfill-at date and time (ISO 8601)'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
+    },
+    async ({ fulfillmentOrderId, fulfillAt, dryRun }) => {
+      try {
+        if (dryRun) {
+          const current = await client.getFulfillmentOrder(fulfillmentOrderId);
+          if (current.status !== 'scheduled') {
+            throw new ValidationError(
+              `Fulfillment order ${fulfillmentOrderId} is ${current.status}, not scheduled`,
+              { fulfillmentOrderId: ['Only scheduled fulfillment orders can be rescheduled'] }
+            );
+          }
+          return formatResponse(
+            previewUpdate('fulfillmentOrder', fulfillmentOrderId, current, { fulfillAt }),
+            'json',
+            'fulfillmentOrder'
+          );
+        }
+        const fulfillmentOrder = await client.rescheduleFulfillmentOrder(
+          fulfillmentOrderId,
+          fulfillAt
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment order rescheduled', fulfillmentOrder },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Cancel Fulfillment Order
+  // ===========================================================================
+  server.tool(
+    'shopify_cancel_fulfillment_order',
+    `Cancel a fulfillment order.
+
+Its unfulfilled line items are put on a new replacement fulfillment order at the same
+location, so the items can still be fulfilled (or moved) later.
+
+Args:
+  - fulfillmentOrderId: Fulfillment order ID
+  - dryRun: Preview a field-level diff of the change without applying it
+
+Returns:
+  The cancelled fulfillment order and its replacement.`,
+    {
+      fulfillmentOrderId: z.number().describe('Fulfillment order ID'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
+    },
+    async ({ fulfillmentOrderId, dryRun }) => {
+      try {
+        if (dryRun) {
+          const current = await client.getFulfillmentOrder(fulfillmentOrderId);
+          assertSupportedAction(current, 'cancel_fulfillment_order');
+          return formatResponse(
+            previewUpdate('fulfillmentOrder', fulfillmentOrderId, current, {
+              status: 'cancelled',
+            }),
+            'json',
+            'fulfillmentOrder'
+          );
+        }
+        const result = await client.cancelFulfillmentOrder(fulfillmentOrderId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Fulfillment order cancelled', ...result },
+                null,
+                2
+              ),
+            },
+          ],
+        };
       } catch (error) {
         return formatError(error);
       }
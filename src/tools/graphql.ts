@@ -0,0 +1,94 @@
+/**
+ * GraphQL Tools
+ *
+ * MCP tools for running raw queries against the Shopify GraphQL Admin API.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ShopifyClient } from '../client.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+
+/**
+ * Find the operation types (query, mutation, subscription) defined in a document.
+ * Comments and string literals are stripped first so that keywords inside them
+ * are not mistaken for operations.
+ */
+function getOperationTypes(document: string): Set<string> {
+  const source = document
+    .replace(/"""[\s\S]*?"""/g, '""')
+    .replace(/"(?:[^"\\\n]|\\.)*"/g, '""')
+    .replace(/#[^\n]*/g, '');
+
+  const types = new Set<string>();
+  let depth = 0;
+  for (const match of source.matchAll(/[{}]|[_A-Za-z][_0-9A-Za-z]*/g)) {
+    const token = match[0];
+    if (token === '{') {
+      // Anonymous shorthand operations ({ shop { name } }) are queries
+      if (depth === 0) types.add('query');
+      depth++;
+    } else if (token === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && ['query', 'mutation', 'subscription'].includes(token)) {
+      types.add(token);
+    }
+  }
+  return types;
+}
+
+/**
+ * Register GraphQL tools
+ */
+export function registerGraphqlTools(server: McpServer, client: ShopifyClient): void {
+  // ===========================================================================
+  // GraphQL Query
+  // ===========================================================================
+  server.tool(
+    'shopify_graphql_query',
+    `Run a raw query against the Shopify GraphQL Admin API.
+
+Use this for features that are only available through GraphQL (metaobjects,
+product bundles, selling plans, markets, bulk operations). Queries are paced
+against the store's GraphQL cost bucket and retried when throttled.
+
+Only read-only queries are allowed unless allowWrite is true. Mutation userErrors
+are returned as validation errors.
+
+Args:
+  - query: GraphQL document
+  - variables: Variables for the operation
+  - allowWrite: Allow mutations (default: false)
+  - format: Response format
+
+Returns:
+  The data object of the GraphQL response.`,
+    {
+      query: z.string().min(1).describe('GraphQL document'),
+      variables: z.record(z.string(), z.unknown()).optional().describe('Operation variables'),
+      allowWrite: z.boolean().default(false).describe('Allow mutations'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ query, variables, allowWrite, format }) => {
+      try {
+        const types = getOperationTypes(query);
+        if (types.has('subscription')) {
+          throw new ValidationError('Subscriptions are not supported', {
+            query: ['Subscriptions are not supported'],
+          });
+        }
+        if (types.has('mutation') && !allowWrite) {
+          throw new ValidationError('Mutations require allowWrite: true', {
+            allowWrite: ['Mutations require allowWrite: true'],
+          });
+        }
+
+        const data = await client.graphql<Record<string, unknown>>(query, variables);
+        return formatResponse(data, format, 'data');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,380 @@
+/**
+ * Import Tools
+ *
+ * MCP tools for importing catalog data from the CSV files merchants already use.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ShopifyClient } from '../client.js';
+import type { Product, ProductVariant } from '../types/entities.js';
+import { BATCH_DEFAULTS, getBatchConcurrency, runBatch } from '../utils/batch.js';
+import { diffFields, type FieldChange } from '../utils/dry-run.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { type ProductCsvGroup, parseProductCsv } from '../utils/product-csv.js';
+
+/**
+ * What happened to one entity read from a CSV row
+ */
+interface ImportRowOutcome {
+  row: number;
+  handle: string;
+  entity: 'product' | 'variant' | 'image';
+  action: 'create' | 'update' | 'skip';
+  success: boolean;
+  id?: number;
+  changes?: FieldChange[];
+  message?: string;
+  error?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Existing variant a CSV variant refers to: same SKU, or same option values when
+ * the row has no SKU
+ */
+function findVariant(
+  variants: ProductVariant[],
+  input: Partial<ProductVariant>
+): ProductVariant | undefined {
+  if (input.sku) {
+    return variants.find((variant) => variant.sku === input.sku);
+  }
+  return variants.find(
+    (variant) =>
+      (variant.option1 ?? null) === (input.option1 ?? null) &&
+      (variant.option2 ?? null) === (input.option2 ?? null) &&
+      (variant.option3 ?? null) === (input.option3 ?? null)
+  );
+}
+
+/**
+ * IDs of the variants read from the given rows, where they are known
+ */
+function variantIdsForRows(rows: number[], variantIds: Map<number, number>): number[] {
+  return rows.map((row) => variantIds.get(row)).filter((id): id is number => id !== undefined);
+}
+
+/**
+ * Create a product from its CSV rows. Variants do not exist until the product does,
+ * so variant images are linked to their variants afterwards.
+ */
+async function createFromCsv(
+  client: ShopifyClient,
+  group: ProductCsvGroup,
+  dryRun: boolean
+): Promise<ImportRowOutcome[]> {
+  const { title, ...fields } = group.product;
+  if (!title) {
+    throw new ValidationError(`Title is required to create product ${group.handle}`, {
+      Title: [`Row ${group.productRow} has no Title and no product has this handle`],
+    });
+  }
+
+  const product: Product | null = dryRun
+    ? null
+    : await client.createProduct({
+        ...fields,
+        title,
+        options: group.options.map((name) => ({ name })),
+        variants: group.variants.map(({ input }) => input),
+        images: group.images.map(({ input }) => input),
+      });
+
+  const linkErrors = new Map<number, string>();
+  if (product) {
+    const variantIds = new Map(
+      group.variants.flatMap(({ row }, index) => {
+        const id = product.variants[index]?.id;
+        return id === undefined ? [] : [[row, id] as const];
+      })
+    );
+    for (const [index, { variantRows }] of group.images.entries()) {
+      const imageId = product.images[index]?.id;
+      const ids = variantIdsForRows(variantRows, variantIds);
+      if (imageId === undefined || ids.length === 0) continue;
+      try {
+        await client.updateProductImage(product.id, imageId, { variantIds: ids });
+      } catch (error) {
+        linkErrors.set(
+          index,
+          `Image created but not linked to its variants: ${errorMessage(error)}`
+        );
+      }
+    }
+  }
+
+  const created = (
+    row: number,
+    entity: ImportRowOutcome['entity'],
+    id: number | undefined
+  ): ImportRowOutcome => ({
+    row,
+    handle: group.handle,
+    entity,
+    action: 'create',
+    success: true,
+    id,
+  });
+  return [
+    created(group.productRow, 'product', product?.id),
+    ...group.variants.map(({ row }, index) =>
+      created(row, 'variant', product?.variants[index]?.id)
+    ),
+    ...group.images.map(({ row }, index): ImportRowOutcome => {
+      const outcome = created(row, 'image', product?.images[index]?.id);
+      const error = linkErrors.get(index);
+      return error ? { ...outcome, success: false, error } : outcome;
+    }),
+  ];
+}
+
+/**
+ * Update an existing product from its CSV rows. Each variant and image is applied
+ * on its own, so one failed row does not undo the others.
+ */
+async function updateFromCsv(
+  client: ShopifyClient,
+  existing: Product,
+  group: ProductCsvGroup,
+  dryRun: boolean
+): Promise<ImportRowOutcome[]> {
+  const { handle } = group;
+  const outcomes: ImportRowOutcome[] = [];
+  // Variant IDs by CSV row, for linking variant images
+  const variantIds = new Map<number, number>();
+
+  const { handle: _handle, ...fields } = group.product;
+  const { changes } = diffFields(existing, fields);
+  if (changes.length === 0) {
+    outcomes.push({
+      row: group.productRow,
+      handle,
+      entity: 'product',
+      action: 'skip',
+      success: true,
+      id: existing.id,
+      message: 'Product already has these values',
+    });
+  } else {
+    try {
+      if (!dryRun) await client.updateProduct(existing.id, fields);
+      outcomes.push({
+        row: group.productRow,
+        handle,
+        entity: 'product',
+        action: 'update',
+        success: true,
+        id: existing.id,
+        changes,
+      });
+    } catch (error) {
+      outcomes.push({
+        row: group.productRow,
+        handle,
+        entity: 'product',
+        action: 'update',
+        success: false,
+        id: existing.id,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  for (const { row, input } of group.variants) {
+    const current = findVariant(existing.variants, input);
+    const variantChanges = current ? diffFields(current, input).changes : undefined;
+    const action = !current ? 'create' : variantChanges?.length ? 'update' : 'skip';
+    try {
+      let id = current?.id;
+      if (!dryRun && action === 'create') {
+        id = (await client.createVariant(existing.id, input)).id;
+      } else if (!dryRun && current && action === 'update') {
+        await client.updateVariant(current.id, input);
+      }
+      if (id !== undefined) variantIds.set(row, id);
+      outcomes.push({
+        row,
+        handle,
+        entity: 'variant',
+        action,
+        success: true,
+        id,
+        changes: action === 'update' ? variantChanges : undefined,
+        message: action === 'skip' ? 'Variant already has these values' : undefined,
+      });
+    } catch (error) {
+      outcomes.push({
+        row,
+        handle,
+        entity: 'variant',
+        action,
+        success: false,
+        id: current?.id,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  // Shopify rewrites image URLs to its CDN, so CSV images cannot be matched to
+  // existing ones; they are only added to products that have no images yet
+  for (const { row, input, variantRows } of group.images) {
+    if (existing.images.length > 0) {
+      outcomes.push({
+        row,
+        handle,
+        entity: 'image',
+        action: 'skip',
+        success: true,
+        message: 'Product already has images; images are only imported for products without any',
+      });
+      continue;
+    }
+    try {
+      const ids = variantIdsForRows(variantRows, variantIds);
+      const image = dryRun
+        ? null
+        : await client.createProductImage(existing.id, {
+            ...input,
+            ...(ids.length > 0 && { variantIds: ids }),
+          });
+      outcomes.push({
+        row,
+        handle,
+        entity: 'image',
+        action: 'create',
+        success: true,
+        id: image?.id,
+      });
+    } catch (error) {
+      outcomes.push({
+        row,
+        handle,
+        entity: 'image',
+        action: 'create',
+        success: false,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Register import tools
+ */
+export function registerImportTools(server: McpServer, client: ShopifyClient): void {
+  // ===========================================================================
+  // Import Products CSV
+  // ===========================================================================
+  server.tool(
+    'shopify_import_products_csv',
+    `Create and update products from a CSV in Shopify's product CSV format.
+
+Rows are grouped by Handle. A handle that matches an existing product updates it
+instead of creating a duplicate: product fields are updated, variants are matched by
+Variant SKU (or by option values when there is no SKU) and updated or added, and
+images are added only if the product has none. A Variant Image is added as a product
+image linked to its row's variant. Blank cells leave fields unchanged.
+Variant Inventory Qty is ignored; set stock with the inventory tools.
+
+Supported columns: Handle, Title, Body (HTML), Vendor, Type, Tags, Status,
+Option1-3 Name, Option1-3 Value, Variant SKU, Variant Price, Variant Compare At Price,
+Variant Grams, Variant Weight Unit, Variant Inventory Tracker, Variant Inventory Policy,
+Variant Fulfillment Service, Variant Requires Shipping, Variant Taxable, Variant Barcode,
+Variant Tax Code, Variant Image, Image Src, Image Position, Image Alt Text.
+
+Args:
+  - csv: The CSV text, including the header row (at most 100 products)
+  - concurrency: Products imported at the same time (1-10, default: 4)
+  - dryRun: Report what each row would do, with field-level diffs, without applying it
+
+Returns:
+  Counts per action and an outcome per row and entity (product, variant or image):
+  create, update or skip, whether it succeeded, the entity ID, the changes or the error.
+  A handle with an unreadable row is not imported at all.`,
+    {
+      csv: z.string().min(1).describe('Product CSV text, including the header row'),
+      concurrency: z.number().int().min(1).max(BATCH_DEFAULTS.maxConcurrency).optional(),
+      dryRun: z.boolean().optional().describe('Preview the import without applying it'),
+    },
+    async ({ csv, concurrency, dryRun = false }) => {
+      try {
+        const { groups, errors } = parseProductCsv(csv);
+        if (groups.length > BATCH_DEFAULTS.maxItems) {
+          throw new ValidationError(`CSV has ${groups.length} products`, {
+            csv: [`Import at most ${BATCH_DEFAULTS.maxItems} products per call`],
+          });
+        }
+
+        const report = await runBatch(
+          groups.map((group) => ({ id: group.handle, group })),
+          async ({ group }) => {
+            const existing = await client.listProducts({ handle: group.handle, limit: 1 });
+            const product = existing.items.find((item) => item.handle === group.handle);
+            return product
+              ? updateFromCsv(client, product, group, dryRun)
+              : createFromCsv(client, group, dryRun);
+          },
+          getBatchConcurrency(client.getRateLimitStatus(), concurrency)
+        );
+
+        const rows: ImportRowOutcome[] = errors.map(({ row, handle, error }) => ({
+          row,
+          handle,
+          entity: 'product',
+          action: 'skip',
+          success: false,
+          error,
+        }));
+        report.results.forEach((result, index) => {
+          if (result.result) {
+            rows.push(...result.result);
+            return;
+          }
+          // The whole product failed, e.g. the create was rejected
+          const group = groups[index];
+          for (const row of group.rows) {
+            rows.push({
+              row,
+              handle: group.handle,
+              entity: 'product',
+              action: 'skip',
+              success: false,
+              error: result.error?.message,
+            });
+          }
+        });
+        rows.sort((a, b) => a.row - b.row);
+
+        const count = (action: ImportRowOutcome['action']) =>
+          rows.filter((row) => row.success && row.action === action).length;
+        const failed = rows.filter((row) => !row.success).length;
+        return formatResponse(
+          {
+            success: failed === 0,
+            dryRun,
+            message: `${dryRun ? 'Dry run: ' : ''}${groups.length} product(s) read, ${failed} row outcome(s) failed`,
+            summary: {
+              products: groups.length,
+              created: count('create'),
+              updated: count('update'),
+              skipped: count('skip'),
+              failed,
+            },
+            rows,
+          },
+          'json',
+          'rows'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -4,11 +4,18 @@
  * Exports all Shopify MCP tool registration functions.
  */
 
+export { registerAuditTools } from './audit.js';
+export { registerBulkTools } from './bulk.js';
+export { registerChangeTools } from './changes.js';
 export { registerCollectionTools } from './collections.js';
+export { registerContinuationTools } from './continuation.js';
 export { registerCustomerTools } from './customers.js';
 export { registerDiscountTools } from './discounts.js';
 export { registerDraftOrderTools } from './draft-orders.js';
+export { registerExportTools } from './exports.js';
 export { registerFulfillmentTools } from './fulfillments.js';
+export { registerGraphqlTools } from './graphql.js';
+export { registerImportTools } from './imports.js';
 export { registerInventoryTools } from './inventory.js';
 export { registerMetafieldTools } from './metafields.js';
 export { registerOrderTools } from './orders.js';
@@ -16,4 +23,5 @@ export { registerProductTools } from './products.js';
 export { registerShopTools } from './shop.js';
 export { registerThemeTools } from './themes.js';
 export { registerTransactionTools } from './transactions.js';
+export { registerWebhookEventTools } from './webhook-events.js';
 export { registerWebhookTools } from './webhooks.js';
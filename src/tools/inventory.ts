@@ -7,7 +7,633 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type {
+  InventoryLevel,
+  Location,
+  LowStockItem,
+  LowStockReport,
+  Order,
+  Product,
+  ProductInventory,
+  ProductInventoryVariant,
+  ProductVariant,
+} from '../types/entities.js';
+import { BATCH_DEFAULTS, getBatchConcurrency, runBatch } from '../utils/batch.js';
+import { parseCsvRecords } from '../utils/csv.js';
+import { previewUpdate } from '../utils/dry-run.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import {
+  formatError,
+  formatLowStockReportAsMarkdown,
+  formatProductInventoryAsMarkdown,
+  formatResponse,
+  formatText,
+} from '../utils/formatters.js';
+import { fetchAllPages } from '../utils/pagination.js';
+import { projectFields } from '../utils/projection.js';
+
+/**
+ * Most IDs Shopify accepts in one inventory level filter
+ */
+const INVENTORY_LEVEL_ID_LIMIT = 50;
+
+/**
+ * Current level of an item at a location, or null if it is not stocked there
+ */
+async function getInventoryLevel(
+  client: ShopifyClient,
+  inventoryItemId: number,
+  locationId: number
+): Promise<InventoryLevel | null> {
+  const result = await client.listInventoryLevels({
+    inventoryItemIds: [inventoryItemId],
+    locationIds: [locationId],
+  });
+  return result.items[0] ?? null;
+}
+
+/**
+ * Every location of the store
+ */
+async function listAllLocations(client: ShopifyClient): Promise<Location[]> {
+  const { items } = await fetchAllPages((cursor) => client.listLocations({ limit: 250, cursor }));
+  return items;
+}
+
+/**
+ * Levels of the given items at every location, or at the given locations
+ */
+async function listLevelsForItems(
+  client: ShopifyClient,
+  inventoryItemIds: number[],
+  locationIds?: number[]
+): Promise<InventoryLevel[]> {
+  const levels: InventoryLevel[] = [];
+  for (let start = 0; start < inventoryItemIds.length; start += INVENTORY_LEVEL_ID_LIMIT) {
+    const chunk = inventoryItemIds.slice(start, start + INVENTORY_LEVEL_ID_LIMIT);
+    const { items } = await fetchAllPages((cursor) =>
+      client.listInventoryLevels({ inventoryItemIds: chunk, locationIds, limit: 250, cursor })
+    );
+    levels.push(...items);
+  }
+  return levels;
+}
+
+/**
+ * CSV column for a location's quantities. Location names need not be unique, so
+ * the ID is included to keep two locations from sharing a column.
+ */
+function locationColumn(location: { id: number; name: string }): string {
+  return `${location.name} (${location.id})`;
+}
+
+/**
+ * Key of an inventory item at a location
+ */
+function levelKey(inventoryItemId: number, locationId: number): string {
+  return `${inventoryItemId}@${locationId}`;
+}
+
+/**
+ * Index levels by item and location, so lookups do not scan the whole list
+ */
+function indexLevels(levels: InventoryLevel[]): Map<string, InventoryLevel> {
+  return new Map(levels.map((level) => [levelKey(level.inventoryItemId, level.locationId), level]));
+}
+
+/**
+ * Look up a product by ID or by handle
+ */
+async function findProduct(
+  client: ShopifyClient,
+  productId: number | undefined,
+  handle: string | undefined
+): Promise<Product> {
+  if (productId !== undefined) {
+    return client.getProduct(productId);
+  }
+  if (!handle) {
+    throw new ValidationError('Provide productId or handle', {
+      productId: ['Either productId or handle is required'],
+    });
+  }
+  const result = await client.listProducts({ handle, limit: 1 });
+  const product = result.items.find((item) => item.handle === handle);
+  if (!product) {
+    throw new NotFoundError('Product', handle);
+  }
+  return product;
+}
+
+/**
+ * Arrange a product's levels as a variant by location matrix. Untracked variants
+ * are listed but left out of the totals, since Shopify does not count their stock.
+ */
+function buildProductInventory(
+  product: Product,
+  locations: Location[],
+  levels: InventoryLevel[]
+): ProductInventory {
+  const levelsByKey = indexLevels(levels);
+  const variants: ProductInventoryVariant[] = product.variants.map((variant) => {
+    const byLocation = Object.fromEntries(
+      locations.map((location) => [
+        String(location.id),
+        levelsByKey.get(levelKey(variant.inventoryItemId, location.id))?.available ?? null,
+      ])
+    );
+    return {
+      variantId: variant.id,
+      title: variant.title,
+      sku: variant.sku,
+      inventoryItemId: variant.inventoryItemId,
+      tracked: variant.inventoryManagement === 'shopify',
+      levels: byLocation,
+      total: Object.values(byLocation).reduce<number>(
+        (sum, available) => sum + (available ?? 0),
+        0
+      ),
+    };
+  });
+  const tracked = variants.filter((variant) => variant.tracked);
+
+  return {
+    productId: product.id,
+    title: product.title,
+    handle: product.handle,
+    locations: locations.map((location) => ({
+      id: location.id,
+      name: location.name,
+      active: location.active,
+      total: tracked.reduce((sum, variant) => sum + (variant.levels[String(location.id)] ?? 0), 0),
+    })),
+    variants,
+    total: tracked.reduce((sum, variant) => sum + variant.total, 0),
+  };
+}
+
+/**
+ * Most products or orders read for a low-stock report
+ */
+const LOW_STOCK_SCAN_LIMIT = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A tracked variant and the reorder point it is checked against
+ */
+interface ReorderPoint {
+  product: Product;
+  variant: ProductVariant;
+  threshold: number;
+  thresholdSource: LowStockItem['thresholdSource'];
+}
+
+/**
+ * Give each tracked variant its reorder point: an inline SKU threshold, else the
+ * variant metafield, else the default. Variants with none are not checked.
+ */
+async function resolveReorderPoints(
+  client: ShopifyClient,
+  products: Product[],
+  thresholds: { sku: string; threshold: number }[],
+  metafield: { namespace: string; key: string } | undefined,
+  defaultThreshold: number | undefined
+): Promise<{ points: ReorderPoint[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const inline = new Map(thresholds.map(({ sku, threshold }) => [sku, threshold]));
+
+  const stored = new Map<number, number>();
+  if (metafield) {
+    const values = await client.listVariantMetafieldValues(metafield.namespace, metafield.key);
+    for (const { variantId, sku, value } of values) {
+      const threshold = Number(value);
+      if (value.trim() !== '' && Number.isFinite(threshold) && threshold >= 0) {
+        stored.set(variantId, threshold);
+      } else {
+        warnings.push(
+          `Variant ${variantId}${sku ? ` (SKU ${sku})` : ''} has a threshold metafield that is not a number: "${value}"`
+        );
+      }
+    }
+  }
+
+  const points: ReorderPoint[] = [];
+  const matchedSkus = new Set<string>();
+  for (const product of products) {
+    for (const variant of product.variants) {
+      if (variant.inventoryManagement !== 'shopify') continue;
+      const point = (threshold: number, thresholdSource: ReorderPoint['thresholdSource']) =>
+        points.push({ product, variant, threshold, thresholdSource });
+      const inlineThreshold = variant.sku ? inline.get(variant.sku) : undefined;
+      if (inlineThreshold !== undefined) {
+        matchedSkus.add(variant.sku);
+        point(inlineThreshold, 'inline');
+      } else if (stored.has(variant.id)) {
+        point(stored.get(variant.id) ?? 0, 'metafield');
+      } else if (defaultThreshold !== undefined) {
+        point(defaultThreshold, 'default');
+      }
+    }
+  }
+
+  for (const sku of inline.keys()) {
+    if (!matchedSkus.has(sku)) {
+      warnings.push(`SKU ${sku} does not match a tracked variant of an active product`);
+    }
+  }
+  return { points, warnings };
+}
+
+/**
+ * Units ordered per variant, leaving out cancelled orders
+ */
+function countUnitsSold(orders: Order[]): Map<number, number> {
+  const sold = new Map<number, number>();
+  for (const order of orders) {
+    if (order.cancelledAt) continue;
+    for (const lineItem of order.lineItems ?? []) {
+      if (lineItem.variantId) {
+        sold.set(lineItem.variantId, (sold.get(lineItem.variantId) ?? 0) + lineItem.quantity);
+      }
+    }
+  }
+  return sold;
+}
+
+/**
+ * Variants at or below their reorder point, or with fewer days of cover than
+ * asked for, ranked by days of cover (variants without sales last), then by shortfall
+ */
+function rankLowStock(
+  points: ReorderPoint[],
+  locations: Location[],
+  levels: InventoryLevel[],
+  sold: Map<number, number>,
+  velocityDays: number,
+  minDaysOfCover: number | undefined
+): LowStockItem[] {
+  const levelsByKey = indexLevels(levels);
+  const items = points.map(({ product, variant, threshold, thresholdSource }): LowStockItem => {
+    const byLocation = Object.fromEntries(
+      locations.map((location) => [
+        String(location.id),
+        levelsByKey.get(levelKey(variant.inventoryItemId, location.id))?.available ?? null,
+      ])
+    );
+    const available = Object.values(byLocation).reduce<number>(
+      (sum, quantity) => sum + (quantity ?? 0),
+      0
+    );
+    const unitsSold = sold.get(variant.id) ?? 0;
+    const dailyVelocity = unitsSold / velocityDays;
+    return {
+      sku: variant.sku,
+      productId: product.id,
+      productTitle: product.title,
+      variantId: variant.id,
+      variantTitle: variant.title,
+      inventoryItemId: variant.inventoryItemId,
+      available,
+      levels: byLocation,
+      threshold,
+      thresholdSource,
+      shortfall: Math.max(threshold - available, 0),
+      unitsSold,
+      dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+      daysOfCover:
+        dailyVelocity > 0 ? Math.round((Math.max(available, 0) / dailyVelocity) * 10) / 10 : null,
+    };
+  });
+
+  return items
+    .filter(
+      (item) =>
+        item.available <= item.threshold ||
+        (minDaysOfCover !== undefined &&
+          item.daysOfCover !== null &&
+          item.daysOfCover < minDaysOfCover)
+    )
+    .sort(
+      (a, b) =>
+        (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+        b.shortfall - a.shortfall ||
+        (a.sku ?? '').localeCompare(b.sku ?? '')
+    );
+}
+
+/**
+ * One line of a transfer, with its SKU resolved to an inventory item
+ */
+interface TransferLine {
+  inventoryItemId: number;
+  sku: string | null;
+  quantity: number;
+}
+
+/**
+ * What happened to one item of a transfer:
+ * - planned: dry run, nothing changed
+ * - transferred: removed from the source and added to the destination
+ * - failed: the source adjustment failed, nothing changed
+ * - reversed: the destination adjustment failed and the source was restored
+ * - unbalanced: the destination adjustment failed and restoring the source failed
+ *   too; the stock was removed from the source only
+ */
+interface TransferOutcome extends TransferLine {
+  status: 'planned' | 'transferred' | 'failed' | 'reversed' | 'unbalanced';
+  source: { before: number; after: number };
+  destination: { before: number; after: number };
+  error?: string;
+  reverseError?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Resolve transfer items to inventory items and check the source has enough stock
+ * and both locations stock each item. Throws before anything is changed if any
+ * item cannot be moved.
+ */
+async function planTransfer(
+  client: ShopifyClient,
+  fromLocationId: number,
+  toLocationId: number,
+  items: { inventoryItemId?: number; sku?: string; quantity: number }[]
+): Promise<{ lines: TransferLine[]; levels: InventoryLevel[] }> {
+  const details: Record<string, string[]> = {};
+  const fail = (index: number, message: string) => {
+    details[`items[${index}]`] = [...(details[`items[${index}]`] ?? []), message];
+  };
+  if (fromLocationId === toLocationId) {
+    details.toLocationId = ['Destination must differ from the source location'];
+  }
+
+  const lines: (TransferLine | null)[] = [];
+  for (const [index, { inventoryItemId, sku, quantity }] of items.entries()) {
+    if ((inventoryItemId === undefined) === (sku === undefined)) {
+      fail(index, 'Provide either inventoryItemId or sku');
+      lines.push(null);
+    } else if (inventoryItemId !== undefined) {
+      lines.push({ inventoryItemId, sku: null, quantity });
+    } else if (sku !== undefined) {
+      const matches = await client.findVariants('sku', sku);
+      const ids = [...new Set(matches.items.map((match) => match.inventoryItemId))];
+      if (ids.length === 1 && matches.complete) {
+        lines.push({ inventoryItemId: ids[0], sku, quantity });
+      } else {
+        fail(
+          index,
+          ids.length === 0
+            ? `No variant has SKU "${sku}"`
+            : `SKU "${sku}" is used by ${matches.complete ? ids.length : 'too many'} variants; pass inventoryItemId instead`
+        );
+        lines.push(null);
+      }
+    }
+  }
+
+  const resolved = lines.filter((line): line is TransferLine => line !== null);
+  const ids = resolved.map((line) => line.inventoryItemId);
+  const levels =
+    ids.length > 0 ? await listLevelsForItems(client, ids, [fromLocationId, toLocationId]) : [];
+  lines.forEach((line, index) => {
+    if (!line) return;
+    if (ids.indexOf(line.inventoryItemId) !== resolved.indexOf(line)) {
+      fail(index, `Inventory item ${line.inventoryItemId} is listed more than once`);
+      return;
+    }
+    const level = (locationId: number) =>
+      levels.find(
+        (entry) => entry.inventoryItemId === line.inventoryItemId && entry.locationId === locationId
+      );
+    const source = level(fromLocationId);
+    if (!source) {
+      fail(index, `Inventory item ${line.inventoryItemId} is not stocked at the source location`);
+    } else if ((source.available ?? 0) < line.quantity) {
+      fail(
+        index,
+        `Only ${source.available ?? 0} of inventory item ${line.inventoryItemId} available at the source location`
+      );
+    }
+    if (!level(toLocationId)) {
+      fail(
+        index,
+        `Inventory item ${line.inventoryItemId} is not stocked at the destination location; connect it there first`
+      );
+    }
+  });
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Transfer cannot be made; nothing was changed', details);
+  }
+  return { lines: resolved, levels };
+}
+
+/**
+ * Move one item: take it from the source, add it to the destination, and put it
+ * back at the source if the destination adjustment fails
+ */
+async function transferLine(
+  client: ShopifyClient,
+  fromLocationId: number,
+  toLocationId: number,
+  line: TransferLine,
+  before: { source: number; destination: number }
+): Promise<TransferOutcome> {
+  const { inventoryItemId, quantity } = line;
+  const outcome = (
+    status: TransferOutcome['status'],
+    source: number,
+    destination: number,
+    errors: Pick<TransferOutcome, 'error' | 'reverseError'> = {}
+  ): TransferOutcome => ({
+    ...line,
+    status,
+    source: { before: before.source, after: source },
+    destination: { before: before.destination, after: destination },
+    ...errors,
+  });
+
+  let taken: InventoryLevel;
+  try {
+    taken = await client.adjustInventoryLevel(inventoryItemId, fromLocationId, -quantity);
+  } catch (error) {
+    return outcome('failed', before.source, before.destination, { error: errorMessage(error) });
+  }
+
+  try {
+    const added = await client.adjustInventoryLevel(inventoryItemId, toLocationId, quantity);
+    return outcome('transferred', taken.available ?? 0, added.available ?? 0);
+  } catch (error) {
+    try {
+      const restored = await client.adjustInventoryLevel(inventoryItemId, fromLocationId, quantity);
+      return outcome('reversed', restored.available ?? 0, before.destination, {
+        error: errorMessage(error),
+      });
+    } catch (reverseError) {
+      return outcome('unbalanced', taken.available ?? 0, before.destination, {
+        error: errorMessage(error),
+        reverseError: errorMessage(reverseError),
+      });
+    }
+  }
+}
+
+/**
+ * Most rows read from a stock count file
+ */
+const STOCK_COUNT_MAX_ROWS = 1000;
+
+/**
+ * Header names accepted for each stock count column, compared without case,
+ * spaces or punctuation
+ */
+const STOCK_COUNT_COLUMNS = {
+  sku: ['SKU', 'Variant SKU'],
+  location: ['Location', 'Location ID', 'Location Name'],
+  counted: ['Counted', 'Counted Quantity', 'Count', 'Quantity', 'Qty'],
+};
+
+type StockCountColumns = Record<keyof typeof STOCK_COUNT_COLUMNS, string>;
+
+/**
+ * What happened to one row of a stock count: its level was set to the count, or
+ * it was skipped because the count matches or the row could not be used
+ */
+interface StockCountOutcome {
+  /** File line the row starts on (the header is line 1) */
+  row: number;
+  sku: string;
+  location: string;
+  locationId?: number;
+  inventoryItemId?: number;
+  counted?: number;
+  /** Available quantity before the count; null where the item was not stocked */
+  available?: number | null;
+  /** Counted minus available */
+  variance?: number;
+  action: 'set' | 'skip';
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Find the header used for each stock count column
+ */
+function findStockCountColumns(headers: string[]): StockCountColumns {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const details: Record<string, string[]> = {};
+  const columns = {} as StockCountColumns;
+  for (const [column, names] of Object.entries(STOCK_COUNT_COLUMNS)) {
+    const accepted = names.map(normalize);
+    const header = headers.find((name) => accepted.includes(normalize(name)));
+    if (header) {
+      columns[column as keyof StockCountColumns] = header;
+    } else {
+      details[column] = [`Expected a column named ${names.join(' or ')}`];
+    }
+  }
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Stock count CSV is missing columns', details);
+  }
+  return columns;
+}
+
+/**
+ * Resolve each row of a stock count to an inventory item and location, and work
+ * out its variance from the current available quantity. Rows that cannot be used
+ * are returned as failed skips; nothing is changed.
+ */
+async function planStockCount(
+  client: ShopifyClient,
+  records: Record<string, string>[],
+  lines: number[],
+  columns: StockCountColumns,
+  concurrency: number
+): Promise<StockCountOutcome[]> {
+  const locations = await listAllLocations(client);
+  const findLocation = (value: string) =>
+    locations.find(
+      (location) =>
+        String(location.id) === value || location.name.toLowerCase() === value.toLowerCase()
+    );
+
+  const skus = [...new Set(records.map((record) => record[columns.sku]).filter(Boolean))];
+  const lookups = await runBatch(
+    skus.map((sku) => ({ id: sku })),
+    ({ id }) => client.findVariants('sku', id),
+    concurrency
+  );
+
+  const counted = new Map<string, number>();
+  const outcomes = records.map((record, index): StockCountOutcome => {
+    const row = lines[index];
+    const sku = record[columns.sku];
+    const base = { row, sku, location: record[columns.location] };
+    const invalid = (error: string): StockCountOutcome => ({
+      ...base,
+      action: 'skip',
+      success: false,
+      error,
+    });
+
+    if (!sku) return invalid('SKU is required');
+    const location = findLocation(base.location);
+    if (!location) return invalid(`No location has the name or ID "${base.location}"`);
+    const quantity = record[columns.counted];
+    if (!/^\d+$/.test(quantity)) {
+      return invalid(`Counted quantity must be a whole number of zero or more, got "${quantity}"`);
+    }
+
+    const lookup = lookups.results[skus.indexOf(sku)];
+    if (!lookup.result) return invalid(`SKU lookup failed: ${lookup.error?.message}`);
+    const ids = [...new Set(lookup.result.items.map((match) => match.inventoryItemId))];
+    if (ids.length === 0) return invalid(`No variant has SKU "${sku}"`);
+    if (!lookup.result.complete) return invalid(`SKU "${sku}" is used by too many variants`);
+    if (ids.length > 1) return invalid(`SKU "${sku}" is used by ${ids.length} variants`);
+
+    const key = levelKey(ids[0], location.id);
+    const firstRow = counted.get(key);
+    if (firstRow !== undefined) {
+      return invalid(`SKU ${sku} at ${location.name} is already counted on row ${firstRow}`);
+    }
+    counted.set(key, row);
+    return {
+      ...base,
+      locationId: location.id,
+      inventoryItemId: ids[0],
+      counted: parseInt(quantity, 10),
+      available: null,
+      variance: 0,
+      action: 'set',
+      success: true,
+    };
+  });
+
+  const valid = outcomes.filter((outcome) => outcome.success);
+  const levels = await listLevelsForItems(
+    client,
+    [...new Set(valid.map((outcome) => outcome.inventoryItemId ?? 0))],
+    [...new Set(valid.map((outcome) => outcome.locationId ?? 0))]
+  );
+  const levelsByKey = indexLevels(levels);
+  for (const outcome of valid) {
+    const available =
+      levelsByKey.get(levelKey(outcome.inventoryItemId ?? 0, outcome.locationId ?? 0))?.available ??
+      null;
+    outcome.available = available;
+    outcome.variance = (outcome.counted ?? 0) - (available ?? 0);
+    if (outcome.variance === 0 && available !== null) {
+      outcome.action = 'skip';
+      outcome.message = 'Count matches the available quantity';
+    }
+  }
+  return outcomes;
+}
 
 /**
  * Register inventory-related tools
@@ -24,18 +650,22 @@ Locations are places where you store inventory (warehouses, retail stores, etc.)
 
 Args:
   - limit: Number of locations to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   List of inventory locations.`,
     {
       limit: z.number().int().min(1).max(250).default(50).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ limit, format }) => {
+    async ({ limit, cursor, fields, format }) => {
       try {
-        const result = await client.listLocations({ limit });
-        return formatResponse(result, format, 'locations');
+        const result = await client.listLocations({ limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'locations');
       } catch (error) {
         return formatError(error);
       }
@@ -51,18 +681,20 @@ Returns:
 
 Args:
   - locationId: Location ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   The location details.`,
     {
       locationId: z.number().describe('Location ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ locationId, format }) => {
+    async ({ locationId, fields, format }) => {
       try {
         const location = await client.getLocation(locationId);
-        return formatResponse(location, format, 'location');
+        return formatResponse(projectFields(location, fields), format, 'location');
       } catch (error) {
         return formatError(error);
       }
@@ -104,20 +736,22 @@ Args:
   - locationIds: Comma-separated location IDs
   - inventoryItemIds: Comma-separated inventory item IDs
   - limit: Number of levels to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return
 
 Returns:
-  List of inventory levels with available quantities.`,
+  Paginated list of inventory levels with available quantities.`,
     {
       locationIds: z.string().optional().describe('Comma-separated location IDs'),
       inventoryItemIds: z.string().optional().describe('Comma-separated inventory item IDs'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
     },
     async (params) => {
       try {
         const result = await client.listInventoryLevels(params);
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        };
+        return formatResponse(projectFields(result, params.fields), 'json', 'inventoryLevels');
       } catch (error) {
         return formatError(error);
       }
@@ -137,6 +771,7 @@ Args:
   - inventoryItemId: Inventory item ID
   - locationId: Location ID
   - adjustment: Amount to adjust (positive or negative)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated inventory level.`,
@@ -144,9 +779,21 @@ Returns:
       inventoryItemId: z.number().describe('Inventory item ID'),
       locationId: z.number().describe('Location ID'),
       adjustment: z.number().describe('Adjustment amount (positive or negative)'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ inventoryItemId, locationId, adjustment }) => {
+    async ({ inventoryItemId, locationId, adjustment, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await getInventoryLevel(client, inventoryItemId, locationId);
+          const available = (current?.available ?? 0) + adjustment;
+          return formatResponse(
+            previewUpdate('inventoryLevel', `${inventoryItemId}@${locationId}`, current ?? {}, {
+              available,
+            }),
+            'json',
+            'inventoryLevel'
+          );
+        }
         const level = await client.adjustInventoryLevel(inventoryItemId, locationId, adjustment);
         return {
           content: [
@@ -179,6 +826,7 @@ Args:
   - inventoryItemId: Inventory item ID
   - locationId: Location ID
   - available: New available quantity
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated inventory level.`,
@@ -186,9 +834,20 @@ Returns:
       inventoryItemId: z.number().describe('Inventory item ID'),
       locationId: z.number().describe('Location ID'),
       available: z.number().describe('New available quantity'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ inventoryItemId, locationId, available }) => {
+    async ({ inventoryItemId, locationId, available, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await getInventoryLevel(client, inventoryItemId, locationId);
+          return formatResponse(
+            previewUpdate('inventoryLevel', `${inventoryItemId}@${locationId}`, current ?? {}, {
+              available,
+            }),
+            'json',
+            'inventoryLevel'
+          );
+        }
         const level = await client.setInventoryLevel(inventoryItemId, locationId, available);
         return {
           content: [
@@ -204,6 +863,417 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Transfer Inventory
+  // ===========================================================================
+  server.tool(
+    'shopify_transfer_inventory',
+    `Move stock of one or more items from one location to another.
+
+Every item is checked before anything changes: SKUs must match exactly one inventory
+item, the source must have enough available stock, and both locations must stock the
+item. If any check fails nothing is moved. Each item is then taken from the source and
+added to the destination; if adding fails, the source adjustment is reversed.
+
+Args:
+  - fromLocationId: Location to take stock from
+  - toLocationId: Location to add stock to
+  - items: Items to move, each with inventoryItemId or sku, and quantity
+  - dryRun: Check the transfer and show the resulting levels without applying it
+
+Returns:
+  Whether every item moved, and per item: the inventory item ID, SKU, quantity, status
+  (planned, transferred, failed, reversed, or unbalanced when the reversal also failed
+  and the stock left the source only), the source and destination available quantities
+  before and after, and any error.`,
+    {
+      fromLocationId: z.number().describe('Source location ID'),
+      toLocationId: z.number().describe('Destination location ID'),
+      items: z
+        .array(
+          z.object({
+            inventoryItemId: z.number().optional().describe('Inventory item ID'),
+            sku: z.string().min(1).optional().describe('Variant SKU, if no inventoryItemId'),
+            quantity: z.number().int().min(1).describe('Quantity to move'),
+          })
+        )
+        .min(1)
+        .max(BATCH_DEFAULTS.maxItems),
+      dryRun: z.boolean().optional().describe('Preview the transfer without applying it'),
+    },
+    async ({ fromLocationId, toLocationId, items, dryRun = false }) => {
+      try {
+        const { lines, levels } = await planTransfer(client, fromLocationId, toLocationId, items);
+        const available = (inventoryItemId: number, locationId: number) =>
+          levels.find(
+            (level) => level.inventoryItemId === inventoryItemId && level.locationId === locationId
+          )?.available ?? 0;
+
+        // Items are moved one at a time so a failure can be reversed before the next
+        const outcomes: TransferOutcome[] = [];
+        for (const line of lines) {
+          const before = {
+            source: available(line.inventoryItemId, fromLocationId),
+            destination: available(line.inventoryItemId, toLocationId),
+          };
+          outcomes.push(
+            dryRun
+              ? {
+                  ...line,
+                  status: 'planned',
+                  source: { before: before.source, after: before.source - line.quantity },
+                  destination: {
+                    before: before.destination,
+                    after: before.destination + line.quantity,
+                  },
+                }
+              : await transferLine(client, fromLocationId, toLocationId, line, before)
+          );
+        }
+
+        const moved = outcomes.filter((outcome) => outcome.status === 'transferred').length;
+        const unbalanced = outcomes.filter((outcome) => outcome.status === 'unbalanced').length;
+        return formatResponse(
+          {
+            success: dryRun || moved === outcomes.length,
+            dryRun,
+            message: dryRun
+              ? `Dry run: ${outcomes.length} item(s) can be transferred`
+              : `${moved} of ${outcomes.length} item(s) transferred${
+                  unbalanced > 0 ? `; ${unbalanced} removed from the source only` : ''
+                }`,
+            fromLocationId,
+            toLocationId,
+            items: outcomes,
+          },
+          'json',
+          'inventoryTransfer'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Product Inventory
+  // ===========================================================================
+  server.tool(
+    'shopify_get_product_inventory',
+    `Get a product's stock for every variant at every location.
+
+Resolves each variant's inventory item, reads its levels at all locations and
+returns a variant by location matrix with totals. Untracked variants are flagged
+and left out of the totals.
+
+Args:
+  - productId: Product ID
+  - handle: Product handle, if productId is not given
+  - format: Response format (markdown renders the matrix as a table; csv has one row
+    per variant and one column per location, headed "name (ID)")
+
+Returns:
+  The locations (ID, name, active, total), the variants (ID, title, SKU, inventory item
+  ID, tracked, available quantity per location ID, total) and the product total.
+  Quantities are null where a variant is not stocked at a location.`,
+    {
+      productId: z.number().optional().describe('Product ID'),
+      handle: z.string().optional().describe('Product handle'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ productId, handle, format }) => {
+      try {
+        const product = await findProduct(client, productId, handle);
+        const locations = await listAllLocations(client);
+        const levels = await listLevelsForItems(
+          client,
+          product.variants.map((variant) => variant.inventoryItemId)
+        );
+        const inventory = buildProductInventory(product, locations, levels);
+
+        if (format === 'markdown') {
+          return formatText(formatProductInventoryAsMarkdown(inventory));
+        }
+        if (format === 'csv') {
+          const rows = inventory.variants.map(({ levels: byLocation, total, ...variant }) => ({
+            ...variant,
+            ...Object.fromEntries(
+              inventory.locations.map((location) => [
+                locationColumn(location),
+                byLocation[location.id],
+              ])
+            ),
+            total,
+          }));
+          return formatResponse(rows, 'csv', 'productInventory');
+        }
+        return formatResponse(inventory, 'json', 'productInventory');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Low Stock Report
+  // ===========================================================================
+  server.tool(
+    'shopify_low_stock_report',
+    `Find what is about to run out: tracked variants at or below their reorder point,
+ranked by how many days their stock will last.
+
+Each variant of an active product is checked against its threshold: an inline SKU
+threshold, else a numeric variant metafield, else defaultThreshold. Variants without
+any threshold are skipped. Available stock is summed across the chosen locations.
+Sales velocity is the units ordered per day over the last velocityDays (cancelled
+orders excluded), and days of cover is available stock divided by that velocity.
+
+Args:
+  - thresholds: Reorder points per SKU, e.g. [{ sku: "TEE-S", threshold: 20 }]
+  - thresholdMetafield: Variant metafield holding the reorder point, as namespace.key
+    (e.g. "inventory.reorder_point")
+  - defaultThreshold: Reorder point for variants with no other threshold
+  - locationIds: Locations to count stock at (default: all active locations)
+  - velocityDays: Days of orders used to measure velocity (1-365, default: 30)
+  - minDaysOfCover: Also list variants above their threshold whose stock lasts fewer
+    days than this
+  - limit: Most variants to return (1-250, default: 50)
+  - format: Response format (csv has one column per location, headed "name (ID)")
+
+Returns:
+  The variants needing reorder, most urgent first (no cover left first, variants
+  without sales last), each with SKU, product and variant IDs and titles, available
+  stock in total and per location ID, threshold and where it came from, shortfall,
+  units sold, daily velocity and days of cover; plus the locations, how many variants
+  and orders were read, and warnings such as unmatched SKUs.`,
+    {
+      thresholds: z
+        .array(z.object({ sku: z.string().min(1), threshold: z.number().min(0) }))
+        .optional()
+        .describe('Reorder points per SKU'),
+      thresholdMetafield: z
+        .string()
+        .regex(/^[^.]+\..+$/, 'Use namespace.key')
+        .optional()
+        .describe('Variant metafield holding the reorder point, as namespace.key'),
+      defaultThreshold: z.number().min(0).optional(),
+      locationIds: z.array(z.number()).min(1).optional().describe('Location IDs'),
+      velocityDays: z.number().int().min(1).max(365).default(30),
+      minDaysOfCover: z.number().min(0).optional(),
+      limit: z.number().int().min(1).max(250).default(50),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({
+      thresholds = [],
+      thresholdMetafield,
+      defaultThreshold,
+      locationIds,
+      velocityDays,
+      minDaysOfCover,
+      limit,
+      format,
+    }) => {
+      try {
+        if (thresholds.length === 0 && !thresholdMetafield && defaultThreshold === undefined) {
+          throw new ValidationError('Provide thresholds, thresholdMetafield or defaultThreshold', {
+            thresholds: ['At least one source of reorder points is required'],
+          });
+        }
+
+        const allLocations = await listAllLocations(client);
+        const unknown = (locationIds ?? []).filter(
+          (id) => !allLocations.some((location) => location.id === id)
+        );
+        if (unknown.length > 0) {
+          throw new ValidationError('Unknown location', {
+            locationIds: unknown.map((id) => `No location has ID ${id}`),
+          });
+        }
+        const locations = allLocations.filter((location) =>
+          locationIds ? locationIds.includes(location.id) : location.active
+        );
+
+        const products = await fetchAllPages(
+          (cursor) =>
+            client.listProducts({
+              status: 'active',
+              limit: 250,
+              fields: 'id,title,variants',
+              cursor,
+            }),
+          LOW_STOCK_SCAN_LIMIT
+        );
+        const [namespace, ...key] = thresholdMetafield?.split('.') ?? [];
+        const { points, warnings } = await resolveReorderPoints(
+          client,
+          products.items,
+          thresholds,
+          thresholdMetafield ? { namespace, key: key.join('.') } : undefined,
+          defaultThreshold
+        );
+
+        const levels = await listLevelsForItems(
+          client,
+          points.map(({ variant }) => variant.inventoryItemId),
+          locations.map((location) => location.id)
+        );
+        const since = new Date(Date.now() - velocityDays * DAY_MS).toISOString();
+        const orders = await fetchAllPages(
+          (cursor) =>
+            client.listOrders({
+              status: 'any',
+              createdAtMin: since,
+              limit: 250,
+              fields: 'id,cancelledAt,lineItems',
+              cursor,
+            }),
+          LOW_STOCK_SCAN_LIMIT
+        );
+
+        if (!products.complete) {
+          warnings.push(`Only the first ${products.items.length} active products were checked`);
+        }
+        if (!orders.complete) {
+          warnings.push(
+            `Velocity uses the first ${orders.items.length} orders of the window; shorten velocityDays for a full count`
+          );
+        }
+
+        const ranked = rankLowStock(
+          points,
+          locations,
+          levels,
+          countUnitsSold(orders.items),
+          velocityDays,
+          minDaysOfCover
+        );
+        const report: LowStockReport = {
+          locations: locations.map(({ id, name }) => ({ id, name })),
+          velocityDays,
+          since,
+          variantsChecked: points.length,
+          ordersRead: orders.items.length,
+          complete: products.complete && orders.complete,
+          total: ranked.length,
+          items: ranked.slice(0, limit),
+          warnings,
+        };
+
+        if (format === 'markdown') {
+          return formatText(formatLowStockReportAsMarkdown(report));
+        }
+        if (format === 'csv') {
+          const rows = report.items.map(({ levels: byLocation, ...item }) => ({
+            ...item,
+            ...Object.fromEntries(
+              report.locations.map((location) => [
+                locationColumn(location),
+                byLocation[location.id],
+              ])
+            ),
+          }));
+          return formatResponse(rows, 'csv', 'lowStock');
+        }
+        return formatResponse(report, 'json', 'lowStock');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Reconcile Stock Count
+  // ===========================================================================
+  server.tool(
+    'shopify_reconcile_stock_count',
+    `Set inventory levels from a physical stock count.
+
+Reads a count sheet CSV with one row per SKU and location. Each SKU is resolved to
+its inventory item and the counted quantity is compared to the current available
+quantity. Rows whose count differs are set to the count with an absolute set, so
+sales made while the report was reviewed are overwritten by the count. Items not yet
+stocked at a location are connected to it.
+
+Columns (header names are matched without case or spaces):
+  - SKU (or Variant SKU)
+  - Location: location name or ID (or Location ID, Location Name)
+  - Counted: counted quantity (or Counted Quantity, Count, Quantity, Qty)
+
+Args:
+  - csv: The count sheet text, including the header row (at most 1000 rows)
+  - concurrency: Rows looked up and set at the same time (1-10, default: 4)
+  - dryRun: Return the variance report without changing any level
+
+Returns:
+  Counts of levels set, unchanged and failed, the net variance, and an outcome per
+  row: SKU, location, inventory item ID, counted and available quantities, variance,
+  action (set or skip), whether it succeeded and any error. Rows that cannot be
+  resolved (unknown SKU or location, SKU on several variants, repeated SKU and
+  location) are reported and not applied; the other rows still are.`,
+    {
+      csv: z.string().min(1).describe('Count sheet CSV text, including the header row'),
+      concurrency: z.number().int().min(1).max(BATCH_DEFAULTS.maxConcurrency).optional(),
+      dryRun: z.boolean().optional().describe('Preview the variance report without applying it'),
+    },
+    async ({ csv, concurrency, dryRun = false }) => {
+      try {
+        const { headers, records, lines } = parseCsvRecords(csv);
+        const columns = findStockCountColumns(headers);
+        if (records.length > STOCK_COUNT_MAX_ROWS) {
+          throw new ValidationError(`CSV has ${records.length} rows`, {
+            csv: [`Reconcile at most ${STOCK_COUNT_MAX_ROWS} rows per call`],
+          });
+        }
+
+        const workers = getBatchConcurrency(client.getRateLimitStatus(), concurrency);
+        const rows = await planStockCount(client, records, lines, columns, workers);
+
+        if (!dryRun) {
+          const changes = rows.filter((row) => row.success && row.action === 'set');
+          const report = await runBatch(
+            changes.map((row) => ({ id: `${row.inventoryItemId}@${row.locationId}`, row })),
+            ({ row }) =>
+              client.setInventoryLevel(
+                row.inventoryItemId ?? 0,
+                row.locationId ?? 0,
+                row.counted ?? 0
+              ),
+            workers
+          );
+          for (const result of report.results) {
+            if (!result.success) {
+              changes[result.index].success = false;
+              changes[result.index].error = result.error?.message;
+            }
+          }
+        }
+
+        const applied = rows.filter((row) => row.success && row.action === 'set');
+        const unchanged = rows.filter((row) => row.success && row.action === 'skip').length;
+        const failed = rows.filter((row) => !row.success).length;
+        return formatResponse(
+          {
+            success: failed === 0,
+            dryRun,
+            message: `${dryRun ? 'Dry run: ' : ''}${applied.length} level(s) ${dryRun ? 'to set' : 'set'}, ${unchanged} unchanged, ${failed} row(s) failed`,
+            summary: {
+              rows: rows.length,
+              set: applied.length,
+              unchanged,
+              failed,
+              netVariance: applied.reduce((sum, row) => sum + (row.variance ?? 0), 0),
+            },
+            rows,
+          },
+          'json',
+          'rows'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Get Inventory Item
   // ===========================================================================
@@ -215,18 +1285,20 @@ Inventory items are connected to product variants.
 
 Args:
   - inventoryItemId: Inventory item ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   The inventory item details including SKU, cost, tracking settings.`,
     {
       inventoryItemId: z.number().describe('Inventory item ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ inventoryItemId, format }) => {
+    async ({ inventoryItemId, fields, format }) => {
       try {
         const item = await client.getInventoryItem(inventoryItemId);
-        return formatResponse(item, format, 'inventoryItem');
+        return formatResponse(projectFields(item, fields), format, 'inventoryItem');
       } catch (error) {
         return formatError(error);
       }
@@ -248,6 +1320,7 @@ Args:
   - countryCodeOfOrigin: Country of origin (ISO 3166-1 alpha-2)
   - provinceCodeOfOrigin: Province of origin
   - harmonizedSystemCode: HS tariff code
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated inventory item.`,
@@ -259,9 +1332,18 @@ Returns:
       countryCodeOfOrigin: z.string().optional(),
       provinceCodeOfOrigin: z.string().optional(),
       harmonizedSystemCode: z.string().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ inventoryItemId, ...input }) => {
+    async ({ inventoryItemId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getInventoryItem(inventoryItemId);
+          return formatResponse(
+            previewUpdate('inventoryItem', inventoryItemId, current, input),
+            'json',
+            'inventoryItem'
+          );
+        }
         const item = await client.updateInventoryItem(inventoryItemId, input);
         return {
           content: [
@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register metafield-related tools
@@ -26,8 +28,10 @@ Args:
   - ownerResource: Resource type (products, customers, orders, collections, etc.)
   - ownerId: Resource ID
   - limit: Number of metafields to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - namespace: Filter by namespace
   - key: Filter by key
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -36,14 +40,16 @@ Returns:
       ownerResource: z.string().describe('Resource type (e.g., "products")'),
       ownerId: z.number().describe('Resource ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       namespace: z.string().optional(),
       key: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ ownerResource, ownerId, format, ...params }) => {
       try {
         const result = await client.listMetafields(ownerResource, ownerId, params);
-        return formatResponse(result, format, 'metafields');
+        return formatResponse(projectFields(result, params.fields), format, 'metafields');
       } catch (error) {
         return formatError(error);
       }
@@ -61,6 +67,7 @@ Args:
   - ownerResource: Resource type
   - ownerId: Resource ID
   - metafieldId: Metafield ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -69,12 +76,13 @@ Returns:
       ownerResource: z.string().describe('Resource type'),
       ownerId: z.number().describe('Resource ID'),
       metafieldId: z.number().describe('Metafield ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ ownerResource, ownerId, metafieldId, format }) => {
+    async ({ ownerResource, ownerId, metafieldId, fields, format }) => {
       try {
         const metafield = await client.getMetafield(ownerResource, ownerId, metafieldId);
-        return formatResponse(metafield, format, 'metafield');
+        return formatResponse(projectFields(metafield, fields), format, 'metafield');
       } catch (error) {
         return formatError(error);
       }
@@ -107,6 +115,7 @@ Args:
   - value: Metafield value (required)
   - type: Metafield type (required)
   - description: Description
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created metafield.`,
@@ -118,9 +127,14 @@ Returns:
       value: z.string().describe('Metafield value'),
       type: z.string().describe('Metafield type'),
       description: z.string().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ ownerResource, ownerId, ...input }) => {
+    async ({ ownerResource, ownerId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const context = { owner: { resource: ownerResource, id: ownerId } };
+          return formatResponse(previewCreate('metafield', input, context), 'json', 'metafield');
+        }
         const metafield = await client.createMetafield(ownerResource, ownerId, input);
         return {
           content: [
@@ -153,6 +167,7 @@ Args:
   - metafieldId: Metafield ID
   - value: New value
   - type: New type (optional)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated metafield.`,
@@ -162,9 +177,18 @@ Returns:
       metafieldId: z.number().describe('Metafield ID'),
       value: z.string().describe('New value'),
       type: z.string().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ ownerResource, ownerId, metafieldId, ...input }) => {
+    async ({ ownerResource, ownerId, metafieldId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getMetafield(ownerResource, ownerId, metafieldId);
+          return formatResponse(
+            previewUpdate('metafield', metafieldId, current, input),
+            'json',
+            'metafield'
+          );
+        }
         const metafield = await client.updateMetafield(ownerResource, ownerId, metafieldId, input);
         return {
           content: [
@@ -195,6 +219,7 @@ Args:
   - ownerResource: Resource type
   - ownerId: Resource ID
   - metafieldId: Metafield ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
@@ -202,9 +227,18 @@ Returns:
       ownerResource: z.string().describe('Resource type'),
       ownerId: z.number().describe('Resource ID'),
       metafieldId: z.number().describe('Metafield ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ ownerResource, ownerId, metafieldId }) => {
+    async ({ ownerResource, ownerId, metafieldId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getMetafield(ownerResource, ownerId, metafieldId);
+          return formatResponse(
+            previewDelete('metafield', metafieldId, current),
+            'json',
+            'metafield'
+          );
+        }
         await client.deleteMetafield(ownerResource, ownerId, metafieldId);
         return {
           content: [
@@ -233,22 +267,26 @@ Returns:
 
 Args:
   - limit: Number of metafields to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - namespace: Filter by namespace
   - key: Filter by key
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   Paginated list of shop metafields.`,
     {
       limit: z.number().int().min(1).max(250).default(50).optional(),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       namespace: z.string().optional(),
       key: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listShopMetafields(params);
-        return formatResponse(result, format, 'metafields');
+        return formatResponse(projectFields(result, params.fields), format, 'metafields');
       } catch (error) {
         return formatError(error);
       }
@@ -268,6 +306,7 @@ Args:
   - value: Metafield value (required)
   - type: Metafield type (required)
   - description: Description
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created shop metafield.`,
@@ -277,9 +316,13 @@ Returns:
       value: z.string().describe('Metafield value'),
       type: z.string().describe('Metafield type'),
       description: z.string().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('metafield', input), 'json', 'metafield');
+        }
         const metafield = await client.createShopMetafield(input);
         return {
           content: [
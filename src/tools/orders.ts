@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register order-related tools
@@ -22,6 +24,7 @@ export function registerOrderTools(server: McpServer, client: ShopifyClient): vo
 
 Args:
   - limit: Number of orders to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return orders after this ID
   - status: Order status (open, closed, cancelled, any)
   - financialStatus: Financial status (authorized, pending, paid, partially_paid, refunded, voided, partially_refunded, any, unpaid)
@@ -33,12 +36,14 @@ Args:
   - processedAtMin: Minimum processed date
   - processedAtMax: Maximum processed date
   - ids: Comma-separated list of order IDs
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
   Paginated list of orders.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       status: z.enum(['open', 'closed', 'cancelled', 'any']).optional(),
       financialStatus: z
@@ -64,12 +69,13 @@ Returns:
       processedAtMin: z.string().optional(),
       processedAtMax: z.string().optional(),
       ids: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listOrders(params);
-        return formatResponse(result, format, 'orders');
+        return formatResponse(projectFields(result, params.fields), format, 'orders');
       } catch (error) {
         return formatError(error);
       }
@@ -85,18 +91,20 @@ Returns:
 
 Args:
   - orderId: The order ID
+  - fields: Comma-separated fields to return; nested paths like line_items.sku are supported
   - format: Response format
 
 Returns:
   The order with all details including line items, shipping, etc.`,
     {
       orderId: z.number().describe('Order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, format }) => {
+    async ({ orderId, fields, format }) => {
       try {
         const order = await client.getOrder(orderId);
-        return formatResponse(order, format, 'order');
+        return formatResponse(projectFields(order, fields), format, 'order');
       } catch (error) {
         return formatError(error);
       }
@@ -126,6 +134,7 @@ Args:
   - tags: Comma-separated tags
   - sendReceipt: Whether to send receipt email
   - sendFulfillmentReceipt: Whether to send fulfillment email
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created order.`,
@@ -172,9 +181,13 @@ Returns:
       tags: z.string().optional(),
       sendReceipt: z.boolean().optional(),
       sendFulfillmentReceipt: z.boolean().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('order', input), 'json', 'order');
+        }
         const order = await client.createOrder(input);
         return {
           content: [
@@ -205,6 +218,7 @@ Args:
   - tags: New tags
   - shippingAddress: New shipping address
   - buyer_accepts_marketing: Marketing consent
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated order.`,
@@ -227,9 +241,14 @@ Returns:
         })
         .optional(),
       buyerAcceptsMarketing: z.boolean().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ orderId, ...input }) => {
+    async ({ orderId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getOrder(orderId);
+          return formatResponse(previewUpdate('order', orderId, current, input), 'json', 'order');
+        }
         const order = await client.updateOrder(orderId, input);
         return {
           content: [
@@ -254,14 +273,20 @@ Returns:
 
 Args:
   - orderId: Order ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       orderId: z.number().describe('Order ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ orderId }) => {
+    async ({ orderId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getOrder(orderId);
+          return formatResponse(previewDelete('order', orderId, current), 'json', 'order');
+        }
         await client.deleteOrder(orderId);
         return {
           content: [
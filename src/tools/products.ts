@@ -7,7 +7,37 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { BATCH_DEFAULTS, getBatchConcurrency, runBatch } from '../utils/batch.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { createPaginatedResponse } from '../utils/pagination.js';
+import { projectFields } from '../utils/projection.js';
+
+/**
+ * Fields a batch item can change, as in shopify_update_product
+ */
+const productChanges = z.object({
+  title: z.string().optional(),
+  bodyHtml: z.string().optional(),
+  vendor: z.string().optional(),
+  productType: z.string().optional(),
+  tags: z.string().optional(),
+  status: z.enum(['active', 'archived', 'draft']).optional(),
+});
+
+/**
+ * Fields a batch item can change, as in shopify_update_variant
+ */
+const variantChanges = z.object({
+  price: z.string().optional(),
+  sku: z.string().optional(),
+  option1: z.string().optional(),
+  option2: z.string().optional(),
+  option3: z.string().optional(),
+  barcode: z.string().optional(),
+  weight: z.number().optional(),
+  compareAtPrice: z.string().optional(),
+});
 
 /**
  * Register product-related tools
@@ -22,6 +52,7 @@ export function registerProductTools(server: McpServer, client: ShopifyClient):
 
 Args:
   - limit: Number of products to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return products after this ID
   - title: Filter by title
   - vendor: Filter by vendor
@@ -30,12 +61,14 @@ Args:
   - collectionId: Filter by collection
   - status: Filter by status (active, archived, draft)
   - publishedStatus: Filter by published status
-  - format: Response format ('json' or 'markdown')
+  - fields: Comma-separated fields to return; nested paths like variants.sku are supported
+  - format: Response format ('json', 'markdown' or 'csv')
 
 Returns:
   Paginated list of products with variants.`,
     {
       limit: z.number().int().min(1).max(250).default(50).describe('Number of products to return'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional().describe('Return products after this ID'),
       title: z.string().optional().describe('Filter by title'),
       vendor: z.string().optional().describe('Filter by vendor'),
@@ -47,12 +80,13 @@ Returns:
         .enum(['published', 'unpublished', 'any'])
         .optional()
         .describe('Filter by published status'),
-      format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json').describe('Response format'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listProducts(params);
-        return formatResponse(result, format, 'products');
+        return formatResponse(projectFields(result, params.fields), format, 'products');
       } catch (error) {
         return formatError(error);
       }
@@ -68,18 +102,20 @@ Returns:
 
 Args:
   - productId: The product ID
-  - format: Response format ('json' or 'markdown')
+  - fields: Comma-separated fields to return; nested paths like variants.sku are supported
+  - format: Response format ('json', 'markdown' or 'csv')
 
 Returns:
   The product with all variants and images.`,
     {
       productId: z.number().describe('Product ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ productId, format }) => {
+    async ({ productId, fields, format }) => {
       try {
         const product = await client.getProduct(productId);
-        return formatResponse(product, format, 'product');
+        return formatResponse(projectFields(product, fields), format, 'product');
       } catch (error) {
         return formatError(error);
       }
@@ -103,6 +139,7 @@ Args:
   - variants: Array of variant objects with price, sku, etc.
   - options: Array of option objects (name, values)
   - images: Array of image objects (src, alt)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created product.`,
@@ -135,9 +172,13 @@ Returns:
         .array(z.object({ src: z.string(), alt: z.string().optional() }))
         .optional()
         .describe('Product images'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('product', input), 'json', 'product');
+        }
         const product = await client.createProduct(input);
         return {
           content: [
@@ -168,6 +209,7 @@ Args:
   - productType: New product type
   - tags: New comma-separated tags
   - status: New status
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated product.`,
@@ -179,9 +221,18 @@ Returns:
       productType: z.string().optional(),
       tags: z.string().optional(),
       status: z.enum(['active', 'archived', 'draft']).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ productId, ...input }) => {
+    async ({ productId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getProduct(productId);
+          return formatResponse(
+            previewUpdate('product', productId, current, input),
+            'json',
+            'product'
+          );
+        }
         const product = await client.updateProduct(productId, input);
         return {
           content: [
@@ -197,6 +248,62 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Batch Update Products
+  // ===========================================================================
+  server.tool(
+    'shopify_batch_update_products',
+    `Update several products in one call.
+
+Items are updated a few at a time, paced by the store's call-limit bucket. A failed
+item does not stop the batch: every item gets its own success or error entry.
+
+Args:
+  - updates: Array of { id, changes } (1-100 items), where changes takes the fields of
+    shopify_update_product (title, bodyHtml, vendor, productType, tags, status)
+  - concurrency: Items updated at the same time (1-10, default: 4, lowered while the
+    call-limit bucket is nearly full)
+  - dryRun: Preview a field-level diff for every item without applying it
+
+Returns:
+  Counts of succeeded and failed items, and a result per item in request order with the
+  updated product or the error.`,
+    {
+      updates: z
+        .array(z.object({ id: z.number().describe('Product ID'), changes: productChanges }))
+        .min(1)
+        .max(BATCH_DEFAULTS.maxItems)
+        .describe('Products to update'),
+      concurrency: z.number().int().min(1).max(BATCH_DEFAULTS.maxConcurrency).optional(),
+      dryRun: z.boolean().optional().describe('Preview the changes without applying them'),
+    },
+    async ({ updates, concurrency, dryRun }) => {
+      try {
+        const report = await runBatch(
+          updates,
+          async ({ id, changes }) => {
+            if (dryRun) {
+              return previewUpdate('product', id, await client.getProduct(id), changes);
+            }
+            return client.updateProduct(id, changes);
+          },
+          getBatchConcurrency(client.getRateLimitStatus(), concurrency)
+        );
+        return formatResponse(
+          {
+            success: report.failed === 0,
+            message: `${dryRun ? 'Previewed' : 'Updated'} ${report.succeeded} of ${report.total} products`,
+            ...report,
+          },
+          'json',
+          'products'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Delete Product
   // ===========================================================================
@@ -206,14 +313,20 @@ Returns:
 
 Args:
   - productId: Product ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       productId: z.number().describe('Product ID to delete'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ productId }) => {
+    async ({ productId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getProduct(productId);
+          return formatResponse(previewDelete('product', productId, current), 'json', 'product');
+        }
         await client.deleteProduct(productId);
         return {
           content: [
@@ -276,6 +389,8 @@ Returns:
 Args:
   - productId: Product ID
   - limit: Number of variants to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -283,12 +398,14 @@ Returns:
     {
       productId: z.number().describe('Product ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ productId, limit, format }) => {
+    async ({ productId, limit, cursor, fields, format }) => {
       try {
-        const result = await client.listProductVariants(productId, { limit });
-        return formatResponse(result, format, 'variants');
+        const result = await client.listProductVariants(productId, { limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'variants');
       } catch (error) {
         return formatError(error);
       }
@@ -304,18 +421,103 @@ Returns:
 
 Args:
   - variantId: Variant ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   The variant details.`,
     {
       variantId: z.number().describe('Variant ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ variantId, format }) => {
+    async ({ variantId, fields, format }) => {
       try {
         const variant = await client.getVariant(variantId);
-        return formatResponse(variant, format, 'variant');
+        return formatResponse(projectFields(variant, fields), format, 'variant');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Find Variant by SKU
+  // ===========================================================================
+  server.tool(
+    'shopify_find_variant_by_sku',
+    `Find the variants with an exact SKU, across all products.
+
+Resolves a SKU to its product, variant and inventory item IDs without scanning the
+catalog. SKUs are not unique in Shopify, so every variant with the SKU is returned.
+Newly changed SKUs can take a few seconds to become searchable.
+
+Args:
+  - sku: SKU to look up (exact, case-sensitive)
+  - format: Response format
+
+Returns:
+  The matching variants (product ID, title, handle and status; variant ID, title, SKU,
+  barcode and price; inventory item ID and quantity), whether the SKU is duplicated, and
+  complete: false if the search stopped before reading every match.`,
+    {
+      sku: z.string().min(1).describe('SKU to look up'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ sku, format }) => {
+      try {
+        const { items, complete } = await client.findVariants('sku', sku);
+        return formatResponse(
+          {
+            ...createPaginatedResponse(items, { total: items.length, hasMore: !complete }),
+            duplicated: items.length > 1,
+            complete,
+          },
+          format,
+          'variants'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Find Variant by Barcode
+  // ===========================================================================
+  server.tool(
+    'shopify_find_variant_by_barcode',
+    `Find the variants with an exact barcode, across all products.
+
+Resolves a barcode (UPC, EAN, ISBN) to its product, variant and inventory item IDs
+without scanning the catalog. Barcodes are not unique in Shopify, so every variant with
+the barcode is returned. Newly changed barcodes can take a few seconds to become
+searchable.
+
+Args:
+  - barcode: Barcode to look up (exact)
+  - format: Response format
+
+Returns:
+  The matching variants (product ID, title, handle and status; variant ID, title, SKU,
+  barcode and price; inventory item ID and quantity), whether the barcode is duplicated,
+  and complete: false if the search stopped before reading every match.`,
+    {
+      barcode: z.string().min(1).describe('Barcode to look up'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ barcode, format }) => {
+      try {
+        const { items, complete } = await client.findVariants('barcode', barcode);
+        return formatResponse(
+          {
+            ...createPaginatedResponse(items, { total: items.length, hasMore: !complete }),
+            duplicated: items.length > 1,
+            complete,
+          },
+          format,
+          'variants'
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -340,6 +542,7 @@ Args:
   - weight: Weight
   - weightUnit: Weight unit (g, kg, lb, oz)
   - inventoryQuantity: Initial inventory quantity
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created variant.`,
@@ -354,9 +557,18 @@ Returns:
       weight: z.number().optional(),
       weightUnit: z.enum(['g', 'kg', 'lb', 'oz']).optional(),
       inventoryQuantity: z.number().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ productId, ...input }) => {
+    async ({ productId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const product = await client.getProduct(productId);
+          return formatResponse(
+            previewCreate('variant', input, { product: { id: product.id, title: product.title } }),
+            'json',
+            'variant'
+          );
+        }
         const variant = await client.createVariant(productId, input);
         return {
           content: [
@@ -387,6 +599,7 @@ Args:
   - barcode: New barcode
   - weight: New weight
   - compareAtPrice: Compare at price
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated variant.`,
@@ -400,9 +613,18 @@ Returns:
       barcode: z.string().optional(),
       weight: z.number().optional(),
       compareAtPrice: z.string().optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ variantId, ...input }) => {
+    async ({ variantId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getVariant(variantId);
+          return formatResponse(
+            previewUpdate('variant', variantId, current, input),
+            'json',
+            'variant'
+          );
+        }
         const variant = await client.updateVariant(variantId, input);
         return {
           content: [
@@ -418,6 +640,63 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Batch Update Variants
+  // ===========================================================================
+  server.tool(
+    'shopify_batch_update_variants',
+    `Update several variants in one call.
+
+Items are updated a few at a time, paced by the store's call-limit bucket. A failed
+item does not stop the batch: every item gets its own success or error entry.
+
+Args:
+  - updates: Array of { id, changes } (1-100 items), where changes takes the fields of
+    shopify_update_variant (price, sku, option1-3, barcode, weight,
+    compareAtPrice)
+  - concurrency: Items updated at the same time (1-10, default: 4, lowered while the
+    call-limit bucket is nearly full)
+  - dryRun: Preview a field-level diff for every item without applying it
+
+Returns:
+  Counts of succeeded and failed items, and a result per item in request order with the
+  updated variant or the error.`,
+    {
+      updates: z
+        .array(z.object({ id: z.number().describe('Variant ID'), changes: variantChanges }))
+        .min(1)
+        .max(BATCH_DEFAULTS.maxItems)
+        .describe('Variants to update'),
+      concurrency: z.number().int().min(1).max(BATCH_DEFAULTS.maxConcurrency).optional(),
+      dryRun: z.boolean().optional().describe('Preview the changes without applying them'),
+    },
+    async ({ updates, concurrency, dryRun }) => {
+      try {
+        const report = await runBatch(
+          updates,
+          async ({ id, changes }) => {
+            if (dryRun) {
+              return previewUpdate('variant', id, await client.getVariant(id), changes);
+            }
+            return client.updateVariant(id, changes);
+          },
+          getBatchConcurrency(client.getRateLimitStatus(), concurrency)
+        );
+        return formatResponse(
+          {
+            success: report.failed === 0,
+            message: `${dryRun ? 'Previewed' : 'Updated'} ${report.succeeded} of ${report.total} variants`,
+            ...report,
+          },
+          'json',
+          'variants'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Delete Variant
   // ===========================================================================
@@ -428,15 +707,21 @@ Returns:
 Args:
   - productId: Product ID
   - variantId: Variant ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       productId: z.number().describe('Product ID'),
       variantId: z.number().describe('Variant ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ productId, variantId }) => {
+    async ({ productId, variantId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getVariant(variantId);
+          return formatResponse(previewDelete('variant', variantId, current), 'json', 'variant');
+        }
         await client.deleteVariant(productId, variantId);
         return {
           content: [
@@ -466,6 +751,8 @@ Returns:
 Args:
   - productId: Product ID
   - limit: Number of images to return
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -473,12 +760,14 @@ Returns:
     {
       productId: z.number().describe('Product ID'),
       limit: z.number().int().min(1).max(250).default(50).optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ productId, limit, format }) => {
+    async ({ productId, limit, cursor, fields, format }) => {
       try {
-        const result = await client.listProductImages(productId, { limit });
-        return formatResponse(result, format, 'images');
+        const result = await client.listProductImages(productId, { limit, fields, cursor });
+        return formatResponse(projectFields(result, fields), format, 'images');
       } catch (error) {
         return formatError(error);
       }
@@ -499,6 +788,7 @@ Args:
   - alt: Alt text for the image
   - position: Position in the image list
   - variantIds: Array of variant IDs to associate
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created image.`,
@@ -509,9 +799,18 @@ Returns:
       alt: z.string().optional().describe('Alt text'),
       position: z.number().optional().describe('Position'),
       variantIds: z.array(z.number()).optional().describe('Variant IDs to associate'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ productId, ...input }) => {
+    async ({ productId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const product = await client.getProduct(productId);
+          return formatResponse(
+            previewCreate('image', input, { product: { id: product.id, title: product.title } }),
+            'json',
+            'image'
+          );
+        }
         const image = await client.createProductImage(productId, input);
         return {
           content: [
@@ -540,6 +839,7 @@ Args:
   - alt: New alt text
   - position: New position
   - variantIds: New variant IDs to associate
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated image.`,
@@ -549,9 +849,14 @@ Returns:
       alt: z.string().optional(),
       position: z.number().optional(),
       variantIds: z.array(z.number()).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ productId, imageId, ...input }) => {
+    async ({ productId, imageId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getProductImage(productId, imageId);
+          return formatResponse(previewUpdate('image', imageId, current, input), 'json', 'image');
+        }
         const image = await client.updateProductImage(productId, imageId, input);
         return {
           content: [
@@ -577,15 +882,21 @@ Returns:
 Args:
   - productId: Product ID
   - imageId: Image ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       productId: z.number().describe('Product ID'),
       imageId: z.number().describe('Image ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ productId, imageId }) => {
+    async ({ productId, imageId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getProductImage(productId, imageId);
+          return formatResponse(previewDelete('image', imageId, current), 'json', 'image');
+        }
         await client.deleteProductImage(productId, imageId);
         return {
           content: [
@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register shop-related tools
@@ -23,7 +24,7 @@ export function registerShopTools(server: McpServer, client: ShopifyClient): voi
 Verifies that the API credentials are valid and returns shop information.
 
 Returns:
-  Connection status and shop name if successful.`,
+  Connection status, shop name if successful, and the current API call-limit bucket.`,
     {},
     async () => {
       try {
@@ -37,6 +38,38 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Get Rate Limit Status
+  // ===========================================================================
+  server.tool(
+    'shopify_get_rate_limit_status',
+    `Get the current REST call-limit bucket and GraphQL cost bucket for the store.
+
+Shopify allows a burst of REST calls (40 on standard plans, 400 on Plus) that drains
+at a fixed rate, and meters GraphQL queries by cost points. The server pauses requests
+before either bucket runs out; use this to plan bulk work.
+
+Returns:
+  rest: Estimated calls used, bucket size, calls available now, leak rate per second,
+    whether requests are being paused, and when Shopify last reported the bucket.
+  graphql: Cost points available now, bucket size, restore rate, the last query's
+    cost, and when Shopify last reported the bucket.`,
+    {},
+    async () => {
+      try {
+        const status = {
+          rest: client.getRateLimitStatus(),
+          graphql: client.getGraphqlCostStatus(),
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Get Shop
   // ===========================================================================
@@ -52,17 +85,19 @@ Returns comprehensive information about the Shopify store including:
 - Feature flags
 
 Args:
-  - format: Response format ('json' or 'markdown')
+  - fields: Comma-separated fields to return
+  - format: Response format ('json', 'markdown' or 'csv')
 
 Returns:
   Complete shop configuration object.`,
     {
-      format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json').describe('Response format'),
     },
-    async ({ format }) => {
+    async ({ fields, format }) => {
       try {
         const shop = await client.getShop();
-        return formatResponse(shop, format, 'shop');
+        return formatResponse(projectFields(shop, fields), format, 'shop');
       } catch (error) {
         return formatError(error);
       }
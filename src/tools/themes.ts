@@ -7,7 +7,27 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import type { Asset } from '../types/entities.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
+import { CrmApiError } from '../utils/errors.js';
 import { formatError, formatResponse, formatThemesAsMarkdown } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+
+/**
+ * Current asset, or null if the key does not exist yet
+ */
+async function findAsset(
+  client: ShopifyClient,
+  themeId: number,
+  key: string
+): Promise<Asset | null> {
+  try {
+    return await client.getAsset(themeId, key);
+  } catch (error) {
+    if (error instanceof CrmApiError && error.statusCode === 404) return null;
+    throw error;
+  }
+}
 
 /**
  * Register theme-related tools
@@ -23,14 +43,16 @@ export function registerThemeTools(server: McpServer, client: ShopifyClient): vo
 Returns themes with their roles (main, unpublished, demo).
 
 Args:
+  - fields: Comma-separated fields to return (JSON format only)
   - format: Response format
 
 Returns:
   List of themes.`,
     {
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ format }) => {
+    async ({ fields, format }) => {
       try {
         const themes = await client.listThemes();
         if (format === 'markdown') {
@@ -38,9 +60,7 @@ Returns:
             content: [{ type: 'text', text: formatThemesAsMarkdown(themes) }],
           };
         }
-        return {
-          content: [{ type: 'text', text: JSON.stringify(themes, null, 2) }],
-        };
+        return formatResponse(projectFields(themes, fields), format, 'themes');
       } catch (error) {
         return formatError(error);
       }
@@ -56,18 +76,20 @@ Returns:
 
 Args:
   - themeId: Theme ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   The theme details.`,
     {
       themeId: z.number().describe('Theme ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ themeId, format }) => {
+    async ({ themeId, fields, format }) => {
       try {
         const theme = await client.getTheme(themeId);
-        return formatResponse(theme, format, 'theme');
+        return formatResponse(projectFields(theme, fields), format, 'theme');
       } catch (error) {
         return formatError(error);
       }
@@ -85,6 +107,7 @@ Args:
   - name: Theme name (required)
   - src: URL to a ZIP file containing the theme (optional)
   - role: Theme role (main, unpublished)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created theme.`,
@@ -92,9 +115,13 @@ Returns:
       name: z.string().describe('Theme name'),
       src: z.string().url().optional().describe('URL to theme ZIP file'),
       role: z.enum(['main', 'unpublished']).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('theme', input), 'json', 'theme');
+        }
         const theme = await client.createTheme(input);
         return {
           content: [
@@ -121,6 +148,7 @@ Args:
   - themeId: Theme ID to update
   - name: New theme name
   - role: New theme role (main to publish, unpublished to unpublish)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated theme.`,
@@ -128,9 +156,14 @@ Returns:
       themeId: z.number().describe('Theme ID'),
       name: z.string().optional(),
       role: z.enum(['main', 'unpublished']).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ themeId, ...input }) => {
+    async ({ themeId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getTheme(themeId);
+          return formatResponse(previewUpdate('theme', themeId, current, input), 'json', 'theme');
+        }
         const theme = await client.updateTheme(themeId, input);
         return {
           content: [
@@ -157,14 +190,20 @@ Note: The main (published) theme cannot be deleted.
 
 Args:
   - themeId: Theme ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       themeId: z.number().describe('Theme ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ themeId }) => {
+    async ({ themeId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getTheme(themeId);
+          return formatResponse(previewDelete('theme', themeId, current), 'json', 'theme');
+        }
         await client.deleteTheme(themeId);
         return {
           content: [
@@ -191,19 +230,21 @@ Returns a list of asset keys (file paths) in the theme.
 
 Args:
   - themeId: Theme ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   List of asset keys.`,
     {
       themeId: z.number().describe('Theme ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ themeId, format }) => {
+    async ({ themeId, fields, format }) => {
       try {
         const assets = await client.listAssets(themeId);
         return formatResponse(
-          { items: assets, count: assets.length, hasMore: false },
+          projectFields({ items: assets, count: assets.length, hasMore: false }, fields),
           format,
           'assets'
         );
@@ -225,6 +266,7 @@ Returns the asset content (value) and metadata.
 Args:
   - themeId: Theme ID
   - key: Asset key (file path, e.g., "templates/index.liquid")
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
@@ -232,12 +274,13 @@ Returns:
     {
       themeId: z.number().describe('Theme ID'),
       key: z.string().describe('Asset key (file path)'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ themeId, key, format }) => {
+    async ({ themeId, key, fields, format }) => {
       try {
         const asset = await client.getAsset(themeId, key);
-        return formatResponse(asset, format, 'asset');
+        return formatResponse(projectFields(asset, fields), format, 'asset');
       } catch (error) {
         return formatError(error);
       }
@@ -259,6 +302,7 @@ Args:
   - value: Asset content as text
   - attachment: Asset content as base64-encoded string
   - sourceKey: Copy from another asset key (instead of value/attachment)
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created/updated asset.`,
@@ -268,9 +312,20 @@ Returns:
       value: z.string().optional().describe('Text content'),
       attachment: z.string().optional().describe('Base64-encoded binary content'),
       sourceKey: z.string().optional().describe('Copy from this asset key'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ themeId, ...input }) => {
+    async ({ themeId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await findAsset(client, themeId, input.key);
+          return formatResponse(
+            current
+              ? previewUpdate('asset', input.key, current, input)
+              : previewCreate('asset', input, { themeId }),
+            'json',
+            'asset'
+          );
+        }
         const asset = await client.createOrUpdateAsset(themeId, input);
         return {
           content: [
@@ -296,15 +351,21 @@ Returns:
 Args:
   - themeId: Theme ID
   - key: Asset key to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       themeId: z.number().describe('Theme ID'),
       key: z.string().describe('Asset key'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ themeId, key }) => {
+    async ({ themeId, key, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getAsset(themeId, key);
+          return formatResponse(previewDelete('asset', key, current), 'json', 'asset');
+        }
         await client.deleteAsset(themeId, key);
         return {
           content: [
@@ -7,7 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import type { Order } from '../types/entities.js';
+import { previewCreate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+
+/**
+ * Order details shown alongside a transaction or refund preview
+ */
+function summarizeOrder(order: Order) {
+  return {
+    id: order.id,
+    name: order.name,
+    financialStatus: order.financialStatus,
+    totalPrice: order.totalPrice,
+    currency: order.currency,
+  };
+}
 
 /**
  * Register transaction and refund-related tools
@@ -24,19 +40,24 @@ Transactions represent payments, refunds, and other monetary operations.
 
 Args:
   - orderId: Order ID
+  - fields: Comma-separated fields to return; nested paths like payment_details.credit_card_company are supported
   - format: Response format
 
 Returns:
   List of transactions.`,
     {
       orderId: z.number().describe('Order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, format }) => {
+    async ({ orderId, fields, format }) => {
       try {
         const transactions = await client.listTransactions(orderId);
         return formatResponse(
-          { items: transactions, count: transactions.length, hasMore: false },
+          projectFields(
+            { items: transactions, count: transactions.length, hasMore: false },
+            fields
+          ),
           format,
           'transactions'
         );
@@ -56,6 +77,7 @@ Returns:
 Args:
   - orderId: Order ID
   - transactionId: Transaction ID
+  - fields: Comma-separated fields to return; nested paths like payment_details.credit_card_company are supported
   - format: Response format
 
 Returns:
@@ -63,12 +85,13 @@ Returns:
     {
       orderId: z.number().describe('Order ID'),
       transactionId: z.number().describe('Transaction ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, transactionId, format }) => {
+    async ({ orderId, transactionId, fields, format }) => {
       try {
         const transaction = await client.getTransaction(orderId, transactionId);
-        return formatResponse(transaction, format, 'transaction');
+        return formatResponse(projectFields(transaction, fields), format, 'transaction');
       } catch (error) {
         return formatError(error);
       }
@@ -91,6 +114,7 @@ Args:
   - currency: Currency code (optional)
   - parentId: Parent transaction ID (for captures/refunds)
   - gateway: Payment gateway used
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created transaction.`,
@@ -103,9 +127,18 @@ Returns:
       currency: z.string().optional().describe('Currency code'),
       parentId: z.number().optional().describe('Parent transaction ID'),
       gateway: z.string().optional().describe('Payment gateway'),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ orderId, ...input }) => {
+    async ({ orderId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const order = await client.getOrder(orderId);
+          return formatResponse(
+            previewCreate('transaction', input, { order: summarizeOrder(order) }),
+            'json',
+            'transaction'
+          );
+        }
         const transaction = await client.createTransaction(orderId, input);
         return {
           content: [
@@ -134,19 +167,21 @@ Returns:
 
 Args:
   - orderId: Order ID
+  - fields: Comma-separated fields to return; nested paths like refund_line_items.quantity are supported
   - format: Response format
 
 Returns:
   List of refunds with line items and amounts.`,
     {
       orderId: z.number().describe('Order ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, format }) => {
+    async ({ orderId, fields, format }) => {
       try {
         const refunds = await client.listRefunds(orderId);
         return formatResponse(
-          { items: refunds, count: refunds.length, hasMore: false },
+          projectFields({ items: refunds, count: refunds.length, hasMore: false }, fields),
           format,
           'refunds'
         );
@@ -166,6 +201,7 @@ Returns:
 Args:
   - orderId: Order ID
   - refundId: Refund ID
+  - fields: Comma-separated fields to return; nested paths like refund_line_items.quantity are supported
   - format: Response format
 
 Returns:
@@ -173,12 +209,13 @@ Returns:
     {
       orderId: z.number().describe('Order ID'),
       refundId: z.number().describe('Refund ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ orderId, refundId, format }) => {
+    async ({ orderId, refundId, fields, format }) => {
       try {
         const refund = await client.getRefund(orderId, refundId);
-        return formatResponse(refund, format, 'refund');
+        return formatResponse(projectFields(refund, fields), format, 'refund');
       } catch (error) {
         return formatError(error);
       }
@@ -259,6 +296,7 @@ Args:
     - amount: Amount to refund
     - kind: Transaction kind (usually 'refund')
     - gateway: Payment gateway
+  - dryRun: Preview the refund Shopify calculates for these line items without creating it
 
 Returns:
   The created refund.`,
@@ -291,9 +329,24 @@ Returns:
           })
         )
         .optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ orderId, ...input }) => {
+    async ({ orderId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const [order, calculated] = await Promise.all([
+            client.getOrder(orderId),
+            client.calculateRefund(orderId, {
+              refundLineItems: input.refundLineItems,
+              shipping: input.shipping,
+            }),
+          ]);
+          return formatResponse(
+            previewCreate('refund', input, { order: summarizeOrder(order), calculated }),
+            'json',
+            'refund'
+          );
+        }
         const refund = await client.createRefund(orderId, input);
         return {
           content: [
@@ -0,0 +1,94 @@
+/**
+ * Webhook Event Tools
+ *
+ * MCP tools for reading webhook events received at /webhooks/:shop.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { NotFoundError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
+import type { ShopAccessCheck } from '../utils/shop-access.js';
+import type { WebhookEventStore } from '../utils/webhook-store.js';
+
+/**
+ * Register webhook event tools. Events are only read once the caller's credentials
+ * are shown to belong to the shop.
+ */
+export function registerWebhookEventTools(
+  server: McpServer,
+  store: WebhookEventStore,
+  checkAccess: ShopAccessCheck
+): void {
+  // ===========================================================================
+  // List Received Webhook Events
+  // ===========================================================================
+  server.tool(
+    'shopify_list_received_webhook_events',
+    `List webhook events received from the store, newest first.
+
+Events arrive at this server's /webhooks/<shop-domain> endpoint, so webhooks must be
+created with that address. Only summaries are listed; use shopify_get_webhook_event
+for the payload.
+
+Args:
+  - limit: Number of events to return (1-100, default: 20)
+  - cursor: Page cursor from a previous response's nextCursor
+  - topic: Filter by topic (e.g., orders/create)
+  - fields: Comma-separated fields to return
+  - format: Response format
+
+Returns:
+  Paginated list of event summaries (webhook ID, topic, trigger and receipt times).`,
+    {
+      limit: z.number().int().min(1).max(100).default(20),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
+      topic: z.string().optional().describe('Filter by topic'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ fields, format, ...params }) => {
+      try {
+        await checkAccess();
+        const result = await store.list(params);
+        return formatResponse(projectFields(result, fields), format, 'webhookEvents');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Webhook Event
+  // ===========================================================================
+  server.tool(
+    'shopify_get_webhook_event',
+    `Get a received webhook event, including its payload.
+
+Args:
+  - webhookId: Webhook ID from shopify_list_received_webhook_events
+  - fields: Comma-separated fields to return; nested paths like payload.line_items are supported
+  - format: Response format
+
+Returns:
+  The event with the webhook body as sent by Shopify.`,
+    {
+      webhookId: z.string().describe('Webhook ID'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ webhookId, fields, format }) => {
+      try {
+        await checkAccess();
+        const event = await store.get(webhookId);
+        if (!event) {
+          throw new NotFoundError('Webhook event', webhookId);
+        }
+        return formatResponse(projectFields(event, fields), format, 'webhookEvent');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -7,7 +7,9 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { ShopifyClient } from '../client.js';
+import { previewCreate, previewDelete, previewUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { projectFields } from '../utils/projection.js';
 
 /**
  * Register webhook-related tools
@@ -24,24 +26,28 @@ Webhooks send notifications to your app when events occur in the store.
 
 Args:
   - limit: Number of webhooks to return (1-250, default: 50)
+  - cursor: Page cursor from a previous response's nextCursor/previousCursor (other filters are ignored when set)
   - sinceId: Return webhooks after this ID
   - topic: Filter by topic (e.g., orders/create)
   - address: Filter by endpoint URL
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   Paginated list of webhooks.`,
     {
       limit: z.number().int().min(1).max(250).default(50),
+      cursor: z.string().optional().describe('Page cursor from a previous response'),
       sinceId: z.string().optional(),
       topic: z.string().optional(),
       address: z.string().optional(),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
     async ({ format, ...params }) => {
       try {
         const result = await client.listWebhooks(params);
-        return formatResponse(result, format, 'webhooks');
+        return formatResponse(projectFields(result, params.fields), format, 'webhooks');
       } catch (error) {
         return formatError(error);
       }
@@ -57,18 +63,20 @@ Returns:
 
 Args:
   - webhookId: Webhook ID
+  - fields: Comma-separated fields to return
   - format: Response format
 
 Returns:
   The webhook details.`,
     {
       webhookId: z.number().describe('Webhook ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      fields: z.string().optional().describe('Comma-separated fields to return'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ webhookId, format }) => {
+    async ({ webhookId, fields, format }) => {
       try {
         const webhook = await client.getWebhook(webhookId);
-        return formatResponse(webhook, format, 'webhook');
+        return formatResponse(projectFields(webhook, fields), format, 'webhook');
       } catch (error) {
         return formatError(error);
       }
@@ -98,6 +106,7 @@ Args:
   - format: Payload format (json or xml)
   - fields: Specific fields to include in payload
   - metafieldNamespaces: Metafield namespaces to include
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The created webhook.`,
@@ -107,9 +116,13 @@ Returns:
       format: z.enum(['json', 'xml']).optional().default('json'),
       fields: z.array(z.string()).optional(),
       metafieldNamespaces: z.array(z.string()).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async (input) => {
+    async ({ dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          return formatResponse(previewCreate('webhook', input), 'json', 'webhook');
+        }
         const webhook = await client.createWebhook(input);
         return {
           content: [
@@ -139,6 +152,7 @@ Args:
   - format: New payload format
   - fields: New fields to include
   - metafieldNamespaces: New metafield namespaces
+  - dryRun: Preview a field-level diff of the change without applying it
 
 Returns:
   The updated webhook.`,
@@ -149,9 +163,18 @@ Returns:
       format: z.enum(['json', 'xml']).optional(),
       fields: z.array(z.string()).optional(),
       metafieldNamespaces: z.array(z.string()).optional(),
+      dryRun: z.boolean().optional().describe('Preview the change without applying it'),
     },
-    async ({ webhookId, ...input }) => {
+    async ({ webhookId, dryRun, ...input }) => {
       try {
+        if (dryRun) {
+          const current = await client.getWebhook(webhookId);
+          return formatResponse(
+            previewUpdate('webhook', webhookId, current, input),
+            'json',
+            'webhook'
+          );
+        }
         const webhook = await client.updateWebhook(webhookId, input);
         return {
           content: [
@@ -176,14 +199,20 @@ Returns:
 
 Args:
   - webhookId: Webhook ID to delete
+  - dryRun: Preview what would be deleted without deleting it
 
 Returns:
   Confirmation of deletion.`,
     {
       webhookId: z.number().describe('Webhook ID'),
+      dryRun: z.boolean().optional().describe('Preview the deletion without applying it'),
     },
-    async ({ webhookId }) => {
+    async ({ webhookId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getWebhook(webhookId);
+          return formatResponse(previewDelete('webhook', webhookId, current), 'json', 'webhook');
+        }
         await client.deleteWebhook(webhookId);
         return {
           content: [
@@ -16,6 +16,8 @@ export interface PaginationParams {
   sinceId?: string;
   /** Fields to return (comma-separated) */
   fields?: string;
+  /** Opaque page_info cursor from a previous response's nextCursor/previousCursor */
+  cursor?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -27,10 +29,16 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
   /** Total count (if available) */
   total?: number;
-  /** Next page cursor/link */
+  /** Cursor for the next page (Shopify page_info) */
   nextCursor?: string;
+  /** Cursor for the previous page (Shopify page_info) */
+  previousCursor?: string;
   /** Next page info (legacy) */
   nextPageInfo?: string;
+  /** Items left out of this response to stay within CHARACTER_LIMIT */
+  omittedCount?: number;
+  /** Token for retrieving the omitted items */
+  continuationToken?: string;
 }
 
 // =============================================================================
@@ -142,6 +150,7 @@ export interface ProductImage {
 
 export interface ProductCreateInput {
   title: string;
+  handle?: string;
   bodyHtml?: string;
   vendor?: string;
   productType?: string;
@@ -178,6 +187,34 @@ export interface ProductListParams extends PaginationParams {
   publishedStatus?: 'published' | 'unpublished' | 'any';
 }
 
+/**
+ * A variant found by SKU or barcode, with the IDs needed to act on it
+ */
+export interface VariantMatch {
+  productId: number;
+  productTitle: string;
+  productHandle: string;
+  productStatus: ProductStatus;
+  variantId: number;
+  variantTitle: string;
+  sku: string | null;
+  barcode: string | null;
+  price: string;
+  inventoryItemId: number;
+  inventoryQuantity: number | null;
+}
+
+export type VariantIdentifier = 'sku' | 'barcode';
+
+/**
+ * A variant's value for one metafield
+ */
+export interface VariantMetafieldValue {
+  variantId: number;
+  sku: string | null;
+  value: string;
+}
+
 // =============================================================================
 // Collection
 // =============================================================================
@@ -493,6 +530,7 @@ export interface CustomerSearchParams {
   limit?: number;
   order?: string;
   fields?: string;
+  cursor?: string;
 }
 
 // =============================================================================
@@ -568,12 +606,89 @@ export interface Location {
   updatedAt: string;
 }
 
+/**
+ * A product's stock as a variant by location matrix
+ */
+export interface ProductInventory {
+  productId: number;
+  title: string;
+  handle: string;
+  locations: ProductInventoryLocation[];
+  variants: ProductInventoryVariant[];
+  /** Available quantity of tracked variants across all locations */
+  total: number;
+}
+
+export interface ProductInventoryLocation {
+  id: number;
+  name: string;
+  active: boolean;
+  /** Available quantity of the product's tracked variants at this location */
+  total: number;
+}
+
+export interface ProductInventoryVariant {
+  variantId: number;
+  title: string;
+  sku: string;
+  inventoryItemId: number;
+  /** Whether Shopify tracks this variant's inventory */
+  tracked: boolean;
+  /** Available quantity per location ID; null where the variant is not stocked */
+  levels: Record<string, number | null>;
+  total: number;
+}
+
+/**
+ * Variants at or below their reorder point, most urgent first
+ */
+export interface LowStockReport {
+  locations: { id: number; name: string }[];
+  /** Days of orders used to measure sales velocity */
+  velocityDays: number;
+  /** Start of the velocity window (ISO 8601) */
+  since: string;
+  /** Variants that have a threshold */
+  variantsChecked: number;
+  ordersRead: number;
+  /** False when the product or order scan stopped at its limit */
+  complete: boolean;
+  /** Variants needing reorder, before the limit is applied */
+  total: number;
+  items: LowStockItem[];
+  warnings: string[];
+}
+
+export interface LowStockItem {
+  sku: string | null;
+  productId: number;
+  productTitle: string;
+  variantId: number;
+  variantTitle: string;
+  inventoryItemId: number;
+  /** Available quantity across the report's locations */
+  available: number;
+  /** Available quantity per location ID; null where the variant is not stocked */
+  levels: Record<string, number | null>;
+  threshold: number;
+  thresholdSource: 'inline' | 'metafield' | 'default';
+  /** Units needed to get back to the threshold */
+  shortfall: number;
+  /** Units ordered in the velocity window */
+  unitsSold: number;
+  dailyVelocity: number;
+  /** Days the available stock lasts at the current velocity; null with no sales */
+  daysOfCover: number | null;
+}
+
 export interface InventoryLevelParams {
   [key: string]: unknown;
   inventoryItemIds?: number[] | string;
   locationIds?: number[] | string;
   limit?: number;
   updatedAtMin?: string;
+  fields?: string;
+  cursor?: string;
 }
 
 export interface InventoryAdjustment {
@@ -665,6 +780,40 @@ export interface FulfillmentHold {
   reasonNotes: string;
 }
 
+export type FulfillmentHoldReason =
+  | 'awaiting_payment'
+  | 'high_risk_of_fraud'
+  | 'incorrect_address'
+  | 'inventory_out_of_stock'
+  | 'other';
+
+export interface FulfillmentHoldInput {
+  reason: FulfillmentHoldReason;
+  reasonNotes?: string;
+  notifyMerchant?: boolean;
+  /** Line items to hold; the whole fulfillment order when omitted */
+  fulfillmentOrderLineItems?: Array<{ id: number; quantity: number }>;
+}
+
+/**
+ * Result of moving a fulfillment order. Moving only some line items splits it:
+ * the moved items get a new fulfillment order and the rest stay behind.
+ */
+export interface FulfillmentOrderMoveResult {
+  originalFulfillmentOrder: FulfillmentOrder;
+  movedFulfillmentOrder: FulfillmentOrder | null;
+  remainingFulfillmentOrder: FulfillmentOrder | null;
+}
+
+/**
+ * Result of cancelling a fulfillment order. Its unfulfilled items move to a
+ * replacement fulfillment order at the same location.
+ */
+export interface FulfillmentOrderCancelResult {
+  fulfillmentOrder: FulfillmentOrder;
+  replacementFulfillmentOrder: FulfillmentOrder | null;
+}
+
 export interface DeliveryMethod {
   id: number;
   methodType: string;
@@ -1103,6 +1252,26 @@ export interface WebhookListParams extends PaginationParams {
   updatedAtMax?: string;
 }
 
+export interface WebhookEvent {
+  /** Shopify's delivery ID (X-Shopify-Webhook-Id), unique per event */
+  webhookId: string;
+  shopDomain: string;
+  topic: string;
+  apiVersion: string | null;
+  triggeredAt: string | null;
+  receivedAt: string;
+  /** Webhook body as sent by Shopify */
+  payload: unknown;
+}
+
+export type WebhookEventSummary = Omit<WebhookEvent, 'payload'>;
+
+export interface WebhookEventListParams {
+  limit?: number;
+  cursor?: string;
+  topic?: string;
+}
+
 // =============================================================================
 // Theme & Asset
 // =============================================================================
@@ -1217,8 +1386,151 @@ export interface CollectListParams extends PaginationParams {
   collectionId?: number | string;
 }
 
+// =============================================================================
+// GraphQL
+// =============================================================================
+
+export interface GraphqlThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface GraphqlCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: GraphqlThrottleStatus;
+}
+
+export interface GraphqlError {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+export interface GraphqlUserError {
+  field: string[] | null;
+  message: string;
+  code?: string;
+}
+
+export interface GraphqlResponse<T> {
+  data?: T;
+  errors?: GraphqlError[];
+  extensions?: { cost?: GraphqlCost };
+}
+
+// =============================================================================
+// Bulk Operations
+// =============================================================================
+
+export type BulkExportResource = 'products' | 'orders';
+
+export type BulkOperationStatus =
+  | 'CANCELED'
+  | 'CANCELING'
+  | 'COMPLETED'
+  | 'CREATED'
+  | 'EXPIRED'
+  | 'FAILED'
+  | 'RUNNING';
+
+export interface BulkOperation {
+  id: string;
+  status: BulkOperationStatus;
+  errorCode: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  objectCount: string;
+  fileSize: string | null;
+  url: string | null;
+  partialDataUrl: string | null;
+}
+
+export interface BulkResultEntity {
+  /** Reassembled entity with its child connections nested */
+  entity: Record<string, unknown>;
+  /** Byte offset of the entity's first line in the result file */
+  offset: number;
+  /** Byte offset just past the entity's last line */
+  nextOffset: number;
+}
+
+export interface BulkResultRange {
+  entities: BulkResultEntity[];
+  /** Whether the range reached the end of the result file */
+  complete: boolean;
+  /** Size of the result file in bytes, when known */
+  totalBytes: number | null;
+}
+
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+export interface AuditEvent {
+  id: string;
+  shopDomain: string;
+  /** MCP tool that made the call, if it came from a tool */
+  tool: string | null;
+  /** Client method, e.g. updateProduct */
+  operation: string;
+  /** Method arguments with secrets redacted */
+  arguments: unknown[];
+  status: 'success' | 'error';
+  /** ID of the entity Shopify returned, when there is one */
+  resultId: number | string | null;
+  error?: {
+    message: string;
+    statusCode?: number;
+    code?: string;
+  };
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface AuditEventListParams {
+  limit?: number;
+  cursor?: string;
+  tool?: string;
+}
+
+// =============================================================================
+// Change History
+// =============================================================================
+
+export type ChangeEntityType = 'product' | 'customer' | 'inventoryLevel';
+
+export interface ChangeRecord {
+  id: string;
+  shopDomain: string;
+  entityType: ChangeEntityType;
+  /** Entity ID; inventory levels use <inventoryItemId>@<locationId> */
+  entityId: string;
+  /** MCP tool that made the change, if it came from a tool */
+  tool: string | null;
+  changedFields: string[];
+  /** Values of the changed fields before the update */
+  before: Record<string, unknown>;
+  /** Values of the changed fields after the update */
+  after: Record<string, unknown>;
+  createdAt: string;
+  expiresAt: string;
+  /** When the change was reverted, or null */
+  revertedAt: string | null;
+}
+
+export type ChangeSummary = Omit<ChangeRecord, 'before' | 'after'>;
+
+export interface ChangeListParams {
+  limit?: number;
+  cursor?: string;
+  entityType?: ChangeEntityType;
+  entityId?: string;
+}
+
 // =============================================================================
 // Response Format
 // =============================================================================
 
-export type ResponseFormat = 'json' | 'markdown';
+export type ResponseFormat = 'json' | 'markdown' | 'csv';
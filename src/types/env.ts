@@ -72,6 +72,58 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Maximum attempts per request when retrying 429/5xx responses */
+  RETRY_MAX_ATTEMPTS: string;
+
+  /** Base delay for exponential retry backoff (ms) */
+  RETRY_BASE_DELAY_MS: string;
+
+  /** Upper bound for a single retry delay (ms) */
+  RETRY_MAX_DELAY_MS: string;
+
+  /** Total time budget for one request including retries (ms) */
+  RETRY_TIME_BUDGET_MS: string;
+
+  /** How long received webhook events are kept (seconds) */
+  WEBHOOK_EVENT_TTL_SECONDS: string;
+
+  /** Comma-separated access scopes requested during OAuth install */
+  SHOPIFY_SCOPES: string;
+
+  /** Shopify app client ID, for OAuth install */
+  SHOPIFY_API_KEY?: string;
+
+  /** Tool profile used when a request sends no X-MCP-Tool-Profile header */
+  DEFAULT_TOOL_PROFILE?: string;
+
+  /** Audit log sink: kv, memory, console or none (defaults to kv when AUDIT_EVENTS is bound) */
+  AUDIT_SINK?: string;
+
+  /** How long audit events are kept in KV (seconds) */
+  AUDIT_EVENT_TTL_SECONDS?: string;
+
+  /** How long product, customer and inventory changes can be reverted (seconds) */
+  CHANGE_RETENTION_SECONDS?: string;
+
+  /** How long results of create calls with an idempotency key are remembered (seconds) */
+  IDEMPOTENCY_TTL_SECONDS?: string;
+
+  /** "true" to require confirmation tokens for destructive tools on every request */
+  REQUIRE_CONFIRMATION?: string;
+
+  // ===========================================================================
+  // Secrets (wrangler secret put)
+  // ===========================================================================
+
+  /** JSON object mapping shop domains to their webhook signing secrets */
+  WEBHOOK_SECRETS?: string;
+
+  /** Shopify app client secret, for OAuth and app webhook signatures */
+  SHOPIFY_API_SECRET?: string;
+
+  /** Key for signing confirmation tokens (defaults to the tenant's access token) */
+  CONFIRMATION_SECRET?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
@@ -79,6 +131,21 @@ export interface Env {
   /** KV namespace for OAuth token storage */
   OAUTH_KV?: KVNamespace;
 
+  /** KV namespace for received webhook events */
+  WEBHOOK_EVENTS?: KVNamespace;
+
+  /** KV namespace for the audit log */
+  AUDIT_EVENTS?: KVNamespace;
+
+  /** KV namespace for change snapshots (shopify_revert_change) */
+  CHANGE_HISTORY?: KVNamespace;
+
+  /** KV namespace for idempotency keys of create tools */
+  IDEMPOTENCY_KV?: KVNamespace;
+
+  /** KV namespace for nonces of issued confirmation tokens */
+  CONFIRMATION_KV?: KVNamespace;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
@@ -90,6 +157,13 @@ export interface Env {
 // Helper Functions
 // ===========================================================================
 
+/**
+ * Check that a shop domain is a *.myshopify.com domain
+ */
+export function isValidShopDomain(shopDomain: string): boolean {
+  return /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/i.test(shopDomain);
+}
+
 /**
  * Get a numeric environment value with a default
  */
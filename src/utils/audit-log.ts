@@ -0,0 +1,457 @@
+/**
+ * Audit Log
+ *
+ * Records every mutation made through the server: which shop, which tool, which
+ * client method with which arguments (secrets redacted), the outcome and timing.
+ *
+ * Events go to a pluggable sink selected by AUDIT_SINK:
+ * - kv: the AUDIT_EVENTS KV namespace (default when it is bound)
+ * - memory: in-memory per isolate (default otherwise), e.g. local development and tests
+ * - console: one JSON line per event in the worker logs
+ * - none: auditing disabled
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ShopifyClient } from '../client.js';
+import type { AuditEvent, AuditEventListParams, PaginatedResponse } from '../types/entities.js';
+import { type Env, getEnvNumber } from '../types/env.js';
+import { CrmApiError } from './errors.js';
+import { createPaginatedResponse } from './pagination.js';
+
+/**
+ * Audit log settings
+ */
+export const AUDIT_DEFAULTS = {
+  /** How long events are kept by the KV sink (seconds) */
+  ttlSeconds: 90 * 24 * 60 * 60,
+  /** Events kept per shop by the in-memory sink */
+  memoryLimit: 500,
+  /** Default page size when listing events */
+  pageSize: 20,
+} as const;
+
+type ClientMethod = {
+  [K in keyof ShopifyClient]: ShopifyClient[K] extends (...args: never[]) => unknown ? K : never;
+}[keyof ShopifyClient];
+
+/**
+ * Whether each client method changes data. Every method must be listed, so a new
+ * one does not compile until it is classified. graphql calls are audited when
+ * they run a mutation.
+ */
+const MUTATING_METHODS: Record<ClientMethod, boolean> = {
+  testConnection: false,
+  getRateLimitStatus: false,
+  graphql: false,
+  getGraphqlCostStatus: false,
+  startBulkExport: false,
+  getBulkOperation: false,
+  readBulkResult: false,
+  getShop: false,
+  listProducts: false,
+  getProduct: false,
+  createProduct: true,
+  updateProduct: true,
+  deleteProduct: true,
+  getProductCount: false,
+  listProductVariants: false,
+  getVariant: false,
+  findVariants: false,
+  listVariantMetafieldValues: false,
+  createVariant: true,
+  updateVariant: true,
+  deleteVariant: true,
+  listProductImages: false,
+  getProductImage: false,
+  createProductImage: true,
+  updateProductImage: true,
+  deleteProductImage: true,
+  listCustomCollections: false,
+  getCustomCollection: false,
+  createCustomCollection: true,
+  updateCustomCollection: true,
+  deleteCustomCollection: true,
+  listSmartCollections: false,
+  getSmartCollection: false,
+  createSmartCollection: true,
+  updateSmartCollection: true,
+  deleteSmartCollection: true,
+  getCollection: false,
+  listCollectionProducts: false,
+  listCollects: false,
+  getCollect: false,
+  createCollect: true,
+  deleteCollect: true,
+  listOrders: false,
+  getOrder: false,
+  createOrder: true,
+  updateOrder: true,
+  deleteOrder: true,
+  getOrderCount: false,
+  closeOrder: true,
+  openOrder: true,
+  cancelOrder: true,
+  listCustomers: false,
+  getCustomer: false,
+  createCustomer: true,
+  updateCustomer: true,
+  deleteCustomer: true,
+  getCustomerCount: false,
+  searchCustomers: false,
+  getCustomerOrders: false,
+  listLocations: false,
+  getLocation: false,
+  getLocationCount: false,
+  listInventoryLevels: false,
+  adjustInventoryLevel: true,
+  setInventoryLevel: true,
+  getInventoryItem: false,
+  updateInventoryItem: true,
+  listFulfillments: false,
+  getFulfillment: false,
+  createFulfillment: true,
+  updateFulfillmentTracking: true,
+  cancelFulfillment: true,
+  listFulfillmentOrders: false,
+  getFulfillmentOrder: false,
+  moveFulfillmentOrder: true,
+  holdFulfillmentOrder: true,
+  releaseFulfillmentOrderHold: true,
+  rescheduleFulfillmentOrder: true,
+  cancelFulfillmentOrder: true,
+  listDraftOrders: false,
+  getDraftOrder: false,
+  createDraftOrder: true,
+  updateDraftOrder: true,
+  deleteDraftOrder: true,
+  completeDraftOrder: true,
+  sendDraftOrderInvoice: true,
+  listTransactions: false,
+  getTransaction: false,
+  createTransaction: true,
+  listRefunds: false,
+  getRefund: false,
+  createRefund: true,
+  calculateRefund: false,
+  listPriceRules: false,
+  getPriceRule: false,
+  createPriceRule: true,
+  updatePriceRule: true,
+  deletePriceRule: true,
+  listDiscountCodes: false,
+  createDiscountCode: true,
+  getDiscountCode: false,
+  updateDiscountCode: true,
+  deleteDiscountCode: true,
+  listWebhooks: false,
+  getWebhook: false,
+  createWebhook: true,
+  updateWebhook: true,
+  deleteWebhook: true,
+  getWebhookCount: false,
+  listThemes: false,
+  getTheme: false,
+  createTheme: true,
+  updateTheme: true,
+  deleteTheme: true,
+  listAssets: false,
+  getAsset: false,
+  createOrUpdateAsset: true,
+  deleteAsset: true,
+  listMetafields: false,
+  getMetafield: false,
+  createMetafield: true,
+  updateMetafield: true,
+  deleteMetafield: true,
+  listShopMetafields: false,
+  createShopMetafield: true,
+};
+
+/**
+ * Argument keys whose values are never written to the log
+ */
+const SECRET_KEY = /token|secret|password|authorization|api_?key/i;
+
+/**
+ * Destination for audit events, scoped to one shop
+ */
+export interface AuditSink {
+  write(event: AuditEvent): Promise<void>;
+  /** List events, newest first */
+  list(params?: AuditEventListParams): Promise<PaginatedResponse<AuditEvent>>;
+}
+
+// =============================================================================
+// KV Sink
+// =============================================================================
+
+/**
+ * KV-backed sink. Keys are ordered newest first by an inverted timestamp.
+ */
+class KvAuditSink implements AuditSink {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly shopDomain: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  private prefix(): string {
+    return `audit-events:${this.shopDomain}:`;
+  }
+
+  async write(event: AuditEvent): Promise<void> {
+    const inverted = Number.MAX_SAFE_INTEGER - Date.parse(event.startedAt);
+    await this.kv.put(`${this.prefix()}${inverted}:${event.id}`, JSON.stringify(event), {
+      expirationTtl: this.ttlSeconds,
+    });
+  }
+
+  async list(params: AuditEventListParams = {}): Promise<PaginatedResponse<AuditEvent>> {
+    const result = await this.kv.list({
+      prefix: this.prefix(),
+      limit: params.limit ?? AUDIT_DEFAULTS.pageSize,
+      cursor: params.cursor,
+    });
+    const events = await Promise.all(
+      result.keys.map((key) => this.kv.get<AuditEvent>(key.name, 'json'))
+    );
+    const items = events
+      .filter((event): event is AuditEvent => Boolean(event))
+      .filter((event) => !params.tool || event.tool === params.tool);
+    return createPaginatedResponse(items, {
+      hasMore: !result.list_complete,
+      nextCursor: result.list_complete ? undefined : result.cursor,
+    });
+  }
+}
+
+// =============================================================================
+// In-Memory Sink
+// =============================================================================
+
+const memoryEvents = new Map<string, AuditEvent[]>();
+
+/**
+ * In-memory sink, newest first, capped per shop
+ */
+export class MemoryAuditSink implements AuditSink {
+  constructor(private readonly shopDomain: string) {}
+
+  private events(): AuditEvent[] {
+    let events = memoryEvents.get(this.shopDomain);
+    if (!events) {
+      events = [];
+      memoryEvents.set(this.shopDomain, events);
+    }
+    return events;
+  }
+
+  async write(event: AuditEvent): Promise<void> {
+    const events = this.events();
+    events.unshift(event);
+    events.splice(AUDIT_DEFAULTS.memoryLimit);
+  }
+
+  async list(params: AuditEventListParams = {}): Promise<PaginatedResponse<AuditEvent>> {
+    const limit = params.limit ?? AUDIT_DEFAULTS.pageSize;
+    const offset = params.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+    const matching = this.events().filter((event) => !params.tool || event.tool === params.tool);
+    const hasMore = offset + limit < matching.length;
+    return createPaginatedResponse(matching.slice(offset, offset + limit), {
+      total: matching.length,
+      hasMore,
+      nextCursor: hasMore ? String(offset + limit) : undefined,
+    });
+  }
+}
+
+// =============================================================================
+// Console and Disabled Sinks
+// =============================================================================
+
+/**
+ * Writes each event to the worker logs as one JSON line. Logs are read with
+ * wrangler tail or Logpush, so events cannot be listed back.
+ */
+class ConsoleAuditSink implements AuditSink {
+  async write(event: AuditEvent): Promise<void> {
+    console.log(JSON.stringify({ type: 'audit', ...event }));
+  }
+
+  async list(): Promise<PaginatedResponse<AuditEvent>> {
+    throw new CrmApiError(
+      'The console audit sink writes to the worker logs and cannot list events. Set AUDIT_SINK to kv or memory.',
+      501,
+      'NOT_SUPPORTED'
+    );
+  }
+}
+
+class NoopAuditSink implements AuditSink {
+  async write(): Promise<void> {}
+
+  async list(): Promise<PaginatedResponse<AuditEvent>> {
+    return createPaginatedResponse([], { hasMore: false });
+  }
+}
+
+/**
+ * Create the audit sink for a shop
+ */
+export function createAuditSink(env: Env, shopDomain: string): AuditSink {
+  const shop = shopDomain.toLowerCase();
+  const sink = env.AUDIT_SINK || (env.AUDIT_EVENTS ? 'kv' : 'memory');
+  switch (sink) {
+    case 'kv':
+      if (!env.AUDIT_EVENTS) {
+        throw new Error('AUDIT_SINK is kv but the AUDIT_EVENTS KV namespace is not bound.');
+      }
+      return new KvAuditSink(
+        env.AUDIT_EVENTS,
+        shop,
+        getEnvNumber(env, 'AUDIT_EVENT_TTL_SECONDS', AUDIT_DEFAULTS.ttlSeconds)
+      );
+    case 'console':
+      return new ConsoleAuditSink();
+    case 'none':
+      return new NoopAuditSink();
+    default:
+      return new MemoryAuditSink(shop);
+  }
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Name of the tool whose handler is running, so client calls can be attributed to it
+ */
+const toolContext = new AsyncLocalStorage<string>();
+
+/**
+ * Name of the tool whose handler is running, or null outside a tool call
+ */
+export function getCurrentToolName(): string | null {
+  return toolContext.getStore() ?? null;
+}
+
+/**
+ * Wrap a server so that each tool handler runs with its tool name in context
+ */
+export function applyAuditContext(server: McpServer): McpServer {
+  const registerTool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (name: string, ...rest: unknown[]) => {
+        const handler = rest[rest.length - 1];
+        if (typeof handler !== 'function') {
+          return registerTool(name, ...rest);
+        }
+        const inContext = (...args: unknown[]) => toolContext.run(name, () => handler(...args));
+        return registerTool(name, ...rest.slice(0, -1), inContext);
+      };
+    },
+  });
+}
+
+/**
+ * Copy of a value with secret-looking keys replaced
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEY.test(key) ? '[REDACTED]' : redactSecrets(entry),
+      ])
+    );
+  }
+  return value;
+}
+
+function isMutation(operation: string, args: unknown[]): boolean {
+  if (operation === 'graphql') {
+    return typeof args[0] === 'string' && /\bmutation\b/.test(args[0]);
+  }
+  return MUTATING_METHODS[operation as ClientMethod] === true;
+}
+
+function getResultId(result: unknown): number | string | null {
+  if (typeof result === 'object' && result !== null && 'id' in result) {
+    const id = (result as { id: unknown }).id;
+    if (typeof id === 'number' || typeof id === 'string') return id;
+  }
+  return null;
+}
+
+/**
+ * Wrap a client so that every mutating call is recorded to the sink. Failures to
+ * write the log are reported but never fail the mutation itself.
+ */
+export function createAuditedClient(
+  client: ShopifyClient,
+  sink: AuditSink,
+  shopDomain: string
+): ShopifyClient {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || typeof value !== 'function') {
+        return value;
+      }
+      const method = value as (...args: unknown[]) => unknown;
+      return (...args: unknown[]) => {
+        if (!isMutation(property, args)) {
+          return method.apply(target, args);
+        }
+        return recordCall(property, args, () => method.apply(target, args));
+      };
+    },
+  });
+
+  async function recordCall(
+    operation: string,
+    args: unknown[],
+    call: () => unknown
+  ): Promise<unknown> {
+    const started = Date.now();
+    const event: AuditEvent = {
+      id: crypto.randomUUID(),
+      shopDomain,
+      tool: getCurrentToolName(),
+      operation,
+      arguments: args.map(redactSecrets),
+      status: 'success',
+      resultId: null,
+      startedAt: new Date(started).toISOString(),
+      durationMs: 0,
+    };
+    try {
+      const result = await call();
+      event.resultId = getResultId(result);
+      return result;
+    } catch (error) {
+      event.status = 'error';
+      event.error = {
+        message: error instanceof Error ? error.message : String(error),
+        statusCode: error instanceof CrmApiError ? error.statusCode : undefined,
+        code: error instanceof CrmApiError ? error.code : undefined,
+      };
+      throw error;
+    } finally {
+      event.durationMs = Date.now() - started;
+      await sink.write(event).catch((writeError: unknown) => {
+        console.error('Failed to write audit event', writeError);
+      });
+    }
+  }
+}
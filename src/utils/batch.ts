@@ -0,0 +1,110 @@
+/**
+ * Batch Utilities
+ *
+ * Runs one operation per item with bounded concurrency and collects a per-item
+ * report, so one failed item does not abort the rest of the batch.
+ */
+
+import type { CallLimitStatus } from './call-limit.js';
+import { CrmApiError } from './errors.js';
+
+/**
+ * Batch settings
+ */
+export const BATCH_DEFAULTS = {
+  /** Most items accepted in one batch */
+  maxItems: 100,
+  /** Items processed at the same time unless the caller asks otherwise */
+  concurrency: 4,
+  /** Upper bound on the concurrency a caller can ask for */
+  maxConcurrency: 10,
+} as const;
+
+/**
+ * Outcome of one item in a batch
+ */
+export interface BatchItemResult<T> {
+  /** Position of the item in the request */
+  index: number;
+  id: number | string;
+  success: boolean;
+  result?: T;
+  error?: {
+    message: string;
+    statusCode?: number;
+    code?: string;
+    retryable: boolean;
+  };
+}
+
+/**
+ * Per-item report for a whole batch, in request order
+ */
+export interface BatchReport<T> {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult<T>[];
+}
+
+/**
+ * Concurrency for a batch: the requested number of workers, but no more than the
+ * calls the shop's bucket has room for right now (and at least one). Each request
+ * still waits on the call-limit tracker, so the bucket is respected as it drains.
+ */
+export function getBatchConcurrency(status: CallLimitStatus, requested?: number): number {
+  const wanted = Math.min(requested ?? BATCH_DEFAULTS.concurrency, BATCH_DEFAULTS.maxConcurrency);
+  return Math.max(1, Math.min(wanted, status.available));
+}
+
+function toItemError(error: unknown): NonNullable<BatchItemResult<unknown>['error']> {
+  if (error instanceof CrmApiError) {
+    return {
+      message: error.message,
+      statusCode: error.statusCode,
+      code: error.code,
+      retryable: error.retryable,
+    };
+  }
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    retryable: false,
+  };
+}
+
+/**
+ * Run an operation for every item with at most `concurrency` in flight, recording
+ * each item's result or error instead of stopping at the first failure.
+ */
+export async function runBatch<I extends { id: number | string }, T>(
+  items: I[],
+  operation: (item: I) => Promise<T>,
+  concurrency: number
+): Promise<BatchReport<T>> {
+  const results: BatchItemResult<T>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { index, id: item.id, success: true, result: await operation(item) };
+      } catch (error) {
+        results[index] = { index, id: item.id, success: false, error: toItemError(error) };
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  );
+
+  const succeeded = results.filter((result) => result.success).length;
+  return {
+    total: items.length,
+    succeeded,
+    failed: items.length - succeeded,
+    results,
+  };
+}
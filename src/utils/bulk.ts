@@ -0,0 +1,170 @@
+/**
+ * Bulk Operation Utilities
+ *
+ * Helpers for reading the JSONL result files of Shopify bulk operations.
+ * Nested connections are flattened in those files, one object per line, with
+ * each child pointing at its parent through __parentId and always following it.
+ */
+
+const NEWLINE = 0x0a;
+
+/**
+ * Child collection each GraphQL object type is nested under
+ */
+const CHILD_COLLECTIONS: Record<string, string> = {
+  ProductVariant: 'variants',
+  ProductImage: 'images',
+  LineItem: 'lineItems',
+};
+
+/**
+ * GraphQL enum fields that REST exposes in lower case
+ */
+const LOWERCASE_ENUM_FIELDS = new Set([
+  'status',
+  'inventoryPolicy',
+  'financialStatus',
+  'fulfillmentStatus',
+]);
+
+/**
+ * A top-level entity read from a result file, with byte offsets relative to the buffer
+ */
+export interface JsonlEntity {
+  value: Record<string, unknown>;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a global ID (gid://shopify/Product/123) into its type and numeric ID
+ */
+export function parseGid(gid: string): { type: string; id: number } | null {
+  const match = gid.match(/^gid:\/\/shopify\/(\w+)\/(\d+)/);
+  return match ? { type: match[1], id: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Reassemble JSONL lines into top-level entities with their children nested.
+ *
+ * The buffer must start on an entity boundary. Unless `complete` is set, the last
+ * entity is treated as possibly truncated and left out, so the next read can start
+ * from its offset.
+ */
+export function assembleBulkEntities(buffer: Uint8Array, complete: boolean): JsonlEntity[] {
+  const decoder = new TextDecoder();
+  const entities: JsonlEntity[] = [];
+  const objectsById = new Map<string, Record<string, unknown>>();
+  let current: JsonlEntity | null = null;
+
+  let lineStart = 0;
+  while (lineStart < buffer.length) {
+    let lineEnd = buffer.indexOf(NEWLINE, lineStart);
+    if (lineEnd === -1) {
+      // A trailing line without a newline is only whole at the end of the file
+      if (!complete) break;
+      lineEnd = buffer.length;
+    }
+    const text = decoder.decode(buffer.subarray(lineStart, lineEnd)).trim();
+    const nextStart = lineEnd + 1;
+
+    if (text) {
+      const object = JSON.parse(text) as Record<string, unknown>;
+      const parentId = object.__parentId as string | undefined;
+      delete object.__parentId;
+
+      if (parentId === undefined) {
+        if (current) entities.push(current);
+        current = { value: object, start: lineStart, end: nextStart };
+      } else {
+        attachChild(objectsById.get(parentId), object, parentId);
+        if (current) current.end = nextStart;
+      }
+      if (typeof object.id === 'string') {
+        objectsById.set(object.id, object);
+      }
+    } else if (current) {
+      current.end = nextStart;
+    }
+    lineStart = nextStart;
+  }
+
+  if (current && complete) {
+    current.end = Math.min(current.end, buffer.length);
+    entities.push(current);
+  }
+  return entities;
+}
+
+/**
+ * Nest a child object under the collection matching its GraphQL type
+ */
+function attachChild(
+  parent: Record<string, unknown> | undefined,
+  child: Record<string, unknown>,
+  parentId: string
+): void {
+  if (!parent) return;
+  const childType = typeof child.id === 'string' ? parseGid(child.id)?.type : undefined;
+  const key = (childType && CHILD_COLLECTIONS[childType]) || 'children';
+  const collection = (parent[key] as unknown[] | undefined) ?? [];
+  collection.push(child);
+  parent[key] = collection;
+
+  // REST children carry their parent's ID (e.g. variant.productId)
+  const parentGid = parseGid(parentId);
+  if (parentGid) {
+    const field = `${parentGid.type.charAt(0).toLowerCase()}${parentGid.type.slice(1)}Id`;
+    child[field] ??= parentGid.id;
+  }
+}
+
+/**
+ * Convert a reassembled GraphQL entity to the shape of the REST entities:
+ * numeric IDs, `{ id }` references flattened to `<key>Id`, money sets reduced to
+ * their shop-currency amount, tag lists joined and enum values lower-cased.
+ */
+export function normalizeBulkEntity(value: unknown, key?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeBulkEntity(item));
+  }
+  if (typeof value === 'string') {
+    if (key === 'id') return parseGid(value)?.id ?? value;
+    if (key && LOWERCASE_ENUM_FIELDS.has(key)) return value.toLowerCase();
+    return value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    if (field === 'tags' && Array.isArray(fieldValue)) {
+      result[field] = fieldValue.join(', ');
+    } else if (isReference(fieldValue)) {
+      result[`${field}Id`] = normalizeBulkEntity(fieldValue.id, 'id');
+    } else if (isMoneySet(fieldValue)) {
+      result[field] = fieldValue.shopMoney.amount;
+    } else {
+      result[field] = normalizeBulkEntity(fieldValue, field);
+    }
+  }
+  return result;
+}
+
+function isReference(value: unknown): value is { id: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.keys(value).length === 1 &&
+    typeof (value as { id?: unknown }).id === 'string'
+  );
+}
+
+function isMoneySet(value: unknown): value is { shopMoney: { amount: string } } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { shopMoney?: { amount?: unknown } }).shopMoney?.amount === 'string'
+  );
+}
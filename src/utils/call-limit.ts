@@ -0,0 +1,253 @@
+/**
+ * Call Limit Tracking
+ *
+ * Leaky-bucket model of Shopify's REST API call limit, fed by the
+ * X-Shopify-Shop-Api-Call-Limit response header (e.g. "32/40"), and the
+ * equivalent cost bucket for the GraphQL Admin API (extensions.cost).
+ */
+
+import type { GraphqlCost } from '../types/entities.js';
+import { sleep } from './retry.js';
+
+/**
+ * Snapshot of a shop's call-limit bucket
+ */
+export interface CallLimitStatus {
+  /** Shop the bucket belongs to */
+  shopDomain: string;
+  /** Estimated calls currently in the bucket */
+  used: number;
+  /** Bucket size (40 on standard plans, 400 on Plus) */
+  limit: number;
+  /** Estimated calls that can be made right away */
+  available: number;
+  /** Calls drained from the bucket per second */
+  leakRatePerSecond: number;
+  /** Whether new requests are currently being paused */
+  throttling: boolean;
+  /** When Shopify last reported the bucket (ISO 8601), null if never */
+  lastReportedAt: string | null;
+}
+
+/**
+ * Default bucket settings
+ */
+export const CALL_LIMIT_DEFAULTS = {
+  /** Bucket size assumed until Shopify reports one */
+  bucketSize: 40,
+  /** Seconds for a full bucket to drain (40 leaks at 2/s, 400 at 20/s) */
+  drainSeconds: 20,
+  /** Fraction of the bucket at which requests start being paused */
+  pauseThreshold: 0.8,
+} as const;
+
+/**
+ * Tracks one shop's bucket and paces requests before it fills
+ */
+export class CallLimitTracker {
+  private used = 0;
+  private limit: number = CALL_LIMIT_DEFAULTS.bucketSize;
+  private updatedAt = Date.now();
+  private lastReportedAt: number | null = null;
+
+  constructor(private readonly shopDomain: string) {}
+
+  /**
+   * Wait until the bucket has room, then reserve one call.
+   * The pause is re-checked after every sleep, since concurrent requests in this
+   * isolate may have reserved the room in the meantime.
+   */
+  async acquire(): Promise<void> {
+    for (let delay = this.getPauseMs(); delay > 0; delay = this.getPauseMs()) {
+      await sleep(delay);
+    }
+    // Reserve the call so concurrent requests in this isolate see it
+    this.used = this.currentLevel() + 1;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Update the bucket from an X-Shopify-Shop-Api-Call-Limit header value
+   */
+  record(header: string | null): void {
+    const match = header?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+    if (!match) return;
+    this.used = parseInt(match[1], 10);
+    this.limit = parseInt(match[2], 10);
+    this.updatedAt = Date.now();
+    this.lastReportedAt = this.updatedAt;
+  }
+
+  /**
+   * Mark the bucket as full after a 429 response
+   */
+  markExhausted(): void {
+    this.used = this.limit;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Current bucket snapshot
+   */
+  getStatus(): CallLimitStatus {
+    const used = Math.ceil(this.currentLevel());
+    return {
+      shopDomain: this.shopDomain,
+      used,
+      limit: this.limit,
+      available: Math.max(0, this.limit - used),
+      leakRatePerSecond: this.leakRate(),
+      throttling: this.getPauseMs() > 0,
+      lastReportedAt: this.lastReportedAt ? new Date(this.lastReportedAt).toISOString() : null,
+    };
+  }
+
+  private leakRate(): number {
+    return this.limit / CALL_LIMIT_DEFAULTS.drainSeconds;
+  }
+
+  private currentLevel(): number {
+    const elapsedSeconds = (Date.now() - this.updatedAt) / 1000;
+    return Math.max(0, this.used - elapsedSeconds * this.leakRate());
+  }
+
+  private getPauseMs(): number {
+    const ceiling = this.limit * CALL_LIMIT_DEFAULTS.pauseThreshold;
+    const excess = this.currentLevel() + 1 - ceiling;
+    return excess > 0 ? (excess / this.leakRate()) * 1000 : 0;
+  }
+}
+
+/**
+ * Trackers are kept per isolate so that every client for the same shop
+ * shares one bucket across requests.
+ */
+const trackers = new Map<string, CallLimitTracker>();
+
+/**
+ * Get (or create) the call-limit tracker for a shop
+ */
+export function getCallLimitTracker(shopDomain: string): CallLimitTracker {
+  const key = shopDomain.toLowerCase();
+  let tracker = trackers.get(key);
+  if (!tracker) {
+    tracker = new CallLimitTracker(key);
+    trackers.set(key, tracker);
+  }
+  return tracker;
+}
+
+// =============================================================================
+// GraphQL Cost Bucket
+// =============================================================================
+
+/**
+ * Snapshot of a shop's GraphQL cost bucket
+ */
+export interface GraphqlCostStatus {
+  /** Shop the bucket belongs to */
+  shopDomain: string;
+  /** Estimated cost points available right now */
+  currentlyAvailable: number;
+  /** Bucket size in cost points */
+  maximumAvailable: number;
+  /** Cost points restored per second */
+  restoreRate: number;
+  /** Requested cost of the last query */
+  lastQueryCost: number | null;
+  /** When Shopify last reported the bucket (ISO 8601), null if never */
+  lastReportedAt: string | null;
+}
+
+/**
+ * Default GraphQL bucket settings (standard plans)
+ */
+export const GRAPHQL_COST_DEFAULTS = {
+  maximumAvailable: 1000,
+  restoreRate: 50,
+} as const;
+
+/**
+ * Tracks one shop's GraphQL cost bucket and paces queries so they are not throttled
+ */
+export class GraphqlCostTracker {
+  private available: number = GRAPHQL_COST_DEFAULTS.maximumAvailable;
+  private maximum: number = GRAPHQL_COST_DEFAULTS.maximumAvailable;
+  private restoreRate: number = GRAPHQL_COST_DEFAULTS.restoreRate;
+  private updatedAt = Date.now();
+  private lastQueryCost: number | null = null;
+  private lastReportedAt: number | null = null;
+
+  constructor(private readonly shopDomain: string) {}
+
+  /**
+   * Wait until the bucket can cover the expected cost, then reserve it.
+   * The last query's requested cost is used as the estimate, and the wait is
+   * re-checked after every sleep in case concurrent queries spent the points.
+   */
+  async acquire(): Promise<void> {
+    let cost = Math.min(this.lastQueryCost ?? 0, this.maximum);
+    for (let delay = this.getWaitMs(cost); delay > 0; delay = this.getWaitMs(cost)) {
+      await sleep(delay);
+      cost = Math.min(this.lastQueryCost ?? 0, this.maximum);
+    }
+    this.available = this.currentlyAvailable() - cost;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Update the bucket from a response's extensions.cost
+   */
+  record(cost: GraphqlCost | undefined): void {
+    if (!cost) return;
+    const status = cost.throttleStatus;
+    this.available = status.currentlyAvailable;
+    this.maximum = status.maximumAvailable;
+    this.restoreRate = status.restoreRate;
+    this.lastQueryCost = cost.requestedQueryCost;
+    this.updatedAt = Date.now();
+    this.lastReportedAt = this.updatedAt;
+  }
+
+  /**
+   * Milliseconds until the given cost can be afforded
+   */
+  getWaitMs(cost: number): number {
+    const shortfall = cost - this.currentlyAvailable();
+    return shortfall > 0 ? (shortfall / this.restoreRate) * 1000 : 0;
+  }
+
+  /**
+   * Current bucket snapshot
+   */
+  getStatus(): GraphqlCostStatus {
+    return {
+      shopDomain: this.shopDomain,
+      currentlyAvailable: Math.floor(this.currentlyAvailable()),
+      maximumAvailable: this.maximum,
+      restoreRate: this.restoreRate,
+      lastQueryCost: this.lastQueryCost,
+      lastReportedAt: this.lastReportedAt ? new Date(this.lastReportedAt).toISOString() : null,
+    };
+  }
+
+  private currentlyAvailable(): number {
+    const elapsedSeconds = (Date.now() - this.updatedAt) / 1000;
+    return Math.min(this.maximum, this.available + elapsedSeconds * this.restoreRate);
+  }
+}
+
+const graphqlTrackers = new Map<string, GraphqlCostTracker>();
+
+/**
+ * Get (or create) the GraphQL cost tracker for a shop
+ */
+export function getGraphqlCostTracker(shopDomain: string): GraphqlCostTracker {
+  const key = shopDomain.toLowerCase();
+  let tracker = graphqlTrackers.get(key);
+  if (!tracker) {
+    tracker = new GraphqlCostTracker(key);
+    graphqlTrackers.set(key, tracker);
+  }
+  return tracker;
+}
@@ -0,0 +1,307 @@
+/**
+ * Change History
+ *
+ * Before-snapshots of product, customer and inventory updates, kept for a
+ * retention window so a change can be reviewed and reverted. Records live in the
+ * CHANGE_HISTORY KV namespace when it is bound, and in memory (per isolate) otherwise.
+ */
+
+import type { ShopifyClient } from '../client.js';
+import type {
+  ChangeEntityType,
+  ChangeListParams,
+  ChangeRecord,
+  ChangeSummary,
+  PaginatedResponse,
+} from '../types/entities.js';
+import { type Env, getEnvNumber } from '../types/env.js';
+import { getCurrentToolName } from './audit-log.js';
+import { createPaginatedResponse } from './pagination.js';
+
+/**
+ * Change history settings
+ */
+export const CHANGE_HISTORY_DEFAULTS = {
+  /** How long changes can be reverted (seconds) */
+  retentionSeconds: 7 * 24 * 60 * 60,
+  /** Changes kept per shop by the in-memory store */
+  memoryLimit: 200,
+  /** Default page size when listing changes */
+  pageSize: 20,
+} as const;
+
+/**
+ * Change store scoped to one shop
+ */
+export interface ChangeStore {
+  /** Add a new change, or save an existing one after it was reverted */
+  put(record: ChangeRecord): Promise<void>;
+  get(changeId: string): Promise<ChangeRecord | null>;
+  /** List changes, newest first */
+  list(params?: ChangeListParams): Promise<PaginatedResponse<ChangeSummary>>;
+}
+
+function toSummary(record: ChangeRecord): ChangeSummary {
+  const { before: _before, after: _after, ...summary } = record;
+  return summary;
+}
+
+function matches(summary: ChangeSummary, params: ChangeListParams): boolean {
+  return (
+    (!params.entityType || summary.entityType === params.entityType) &&
+    (!params.entityId || summary.entityId === params.entityId)
+  );
+}
+
+// =============================================================================
+// KV Store
+// =============================================================================
+
+/**
+ * KV-backed store, laid out like the webhook event store: one key per change
+ * plus an index key ordered newest first whose metadata holds the summary.
+ */
+class KvChangeStore implements ChangeStore {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly shopDomain: string
+  ) {}
+
+  private recordKey(changeId: string): string {
+    return `changes:${this.shopDomain}:id:${changeId}`;
+  }
+
+  private indexPrefix(): string {
+    return `changes:${this.shopDomain}:at:`;
+  }
+
+  async put(record: ChangeRecord): Promise<void> {
+    // Keys expire with the record, however often it is rewritten
+    const options = { expiration: Math.floor(Date.parse(record.expiresAt) / 1000) };
+    const inverted = Number.MAX_SAFE_INTEGER - Date.parse(record.createdAt);
+    await this.kv.put(this.recordKey(record.id), JSON.stringify(record), options);
+    await this.kv.put(`${this.indexPrefix()}${inverted}:${record.id}`, '', {
+      ...options,
+      metadata: toSummary(record),
+    });
+  }
+
+  async get(changeId: string): Promise<ChangeRecord | null> {
+    return this.kv.get<ChangeRecord>(this.recordKey(changeId), 'json');
+  }
+
+  async list(params: ChangeListParams = {}): Promise<PaginatedResponse<ChangeSummary>> {
+    const result = await this.kv.list<ChangeSummary>({
+      prefix: this.indexPrefix(),
+      limit: params.limit ?? CHANGE_HISTORY_DEFAULTS.pageSize,
+      cursor: params.cursor,
+    });
+    const items = result.keys
+      .map((key) => key.metadata)
+      .filter((summary): summary is ChangeSummary => Boolean(summary))
+      .filter((summary) => matches(summary, params));
+    return createPaginatedResponse(items, {
+      hasMore: !result.list_complete,
+      nextCursor: result.list_complete ? undefined : result.cursor,
+    });
+  }
+}
+
+// =============================================================================
+// In-Memory Store
+// =============================================================================
+
+const memoryChanges = new Map<string, ChangeRecord[]>();
+
+/**
+ * In-memory store, newest first, capped per shop
+ */
+class MemoryChangeStore implements ChangeStore {
+  constructor(private readonly shopDomain: string) {}
+
+  private records(): ChangeRecord[] {
+    const now = new Date().toISOString();
+    const records = (memoryChanges.get(this.shopDomain) ?? []).filter(
+      (record) => record.expiresAt > now
+    );
+    memoryChanges.set(this.shopDomain, records);
+    return records;
+  }
+
+  async put(record: ChangeRecord): Promise<void> {
+    const records = this.records();
+    const index = records.findIndex((existing) => existing.id === record.id);
+    if (index >= 0) {
+      records[index] = record;
+      return;
+    }
+    records.unshift(record);
+    records.splice(CHANGE_HISTORY_DEFAULTS.memoryLimit);
+  }
+
+  async get(changeId: string): Promise<ChangeRecord | null> {
+    return this.records().find((record) => record.id === changeId) ?? null;
+  }
+
+  async list(params: ChangeListParams = {}): Promise<PaginatedResponse<ChangeSummary>> {
+    const limit = params.limit ?? CHANGE_HISTORY_DEFAULTS.pageSize;
+    const offset = params.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+    const matching = this.records().filter((record) => matches(record, params));
+    const hasMore = offset + limit < matching.length;
+    return createPaginatedResponse(matching.slice(offset, offset + limit).map(toSummary), {
+      total: matching.length,
+      hasMore,
+      nextCursor: hasMore ? String(offset + limit) : undefined,
+    });
+  }
+}
+
+/**
+ * Create the change store for a shop
+ */
+export function createChangeStore(env: Env, shopDomain: string): ChangeStore {
+  const shop = shopDomain.toLowerCase();
+  if (env.CHANGE_HISTORY) {
+    return new KvChangeStore(env.CHANGE_HISTORY, shop);
+  }
+  return new MemoryChangeStore(shop);
+}
+
+/**
+ * How long changes are kept, from CHANGE_RETENTION_SECONDS
+ */
+export function getChangeRetentionSeconds(env: Env): number {
+  return getEnvNumber(env, 'CHANGE_RETENTION_SECONDS', CHANGE_HISTORY_DEFAULTS.retentionSeconds);
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+function definedFields(input: object): string[] {
+  return Object.entries(input)
+    .filter(([, value]) => value !== undefined)
+    .map(([key]) => key);
+}
+
+function pick(source: object, fields: string[]): Record<string, unknown> {
+  const values = source as Record<string, unknown>;
+  return Object.fromEntries(fields.map((field) => [field, values[field] ?? null]));
+}
+
+/**
+ * Inventory level IDs as stored in a change record's entityId
+ */
+export function formatInventoryLevelId(inventoryItemId: number, locationId: number): string {
+  return `${inventoryItemId}@${locationId}`;
+}
+
+export function parseInventoryLevelId(entityId: string): {
+  inventoryItemId: number;
+  locationId: number;
+} {
+  const [inventoryItemId, locationId] = entityId.split('@').map(Number);
+  return { inventoryItemId, locationId };
+}
+
+async function getAvailable(
+  client: ShopifyClient,
+  inventoryItemId: number,
+  locationId: number
+): Promise<number | null> {
+  const result = await client.listInventoryLevels({
+    inventoryItemIds: [inventoryItemId],
+    locationIds: [locationId],
+  });
+  return result.items[0]?.available ?? null;
+}
+
+/**
+ * Wrap a client so that product, customer and inventory updates are snapshotted
+ * before they are sent. A failure to save the snapshot is reported but never
+ * fails the update itself.
+ */
+export function createSnapshotClient(
+  client: ShopifyClient,
+  store: ChangeStore,
+  options: { shopDomain: string; retentionSeconds: number }
+): ShopifyClient {
+  async function record(
+    entityType: ChangeEntityType,
+    entityId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+  ): Promise<void> {
+    const now = Date.now();
+    const change: ChangeRecord = {
+      id: `chg_${crypto.randomUUID().replace(/-/g, '')}`,
+      shopDomain: options.shopDomain,
+      entityType,
+      entityId,
+      tool: getCurrentToolName(),
+      changedFields: Object.keys(after),
+      before,
+      after,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + options.retentionSeconds * 1000).toISOString(),
+      revertedAt: null,
+    };
+    try {
+      await store.put(change);
+    } catch (error) {
+      console.error('Failed to save change snapshot', error);
+    }
+  }
+
+  const snapshotting: Partial<ShopifyClient> = {
+    async updateProduct(productId, input) {
+      const fields = definedFields(input);
+      const current = await client.getProduct(productId);
+      const product = await client.updateProduct(productId, input);
+      await record('product', String(productId), pick(current, fields), pick(product, fields));
+      return product;
+    },
+
+    async updateCustomer(customerId, input) {
+      const fields = definedFields(input);
+      const current = await client.getCustomer(customerId);
+      const customer = await client.updateCustomer(customerId, input);
+      await record('customer', String(customerId), pick(current, fields), pick(customer, fields));
+      return customer;
+    },
+
+    async setInventoryLevel(inventoryItemId, locationId, available) {
+      const before = await getAvailable(client, inventoryItemId, locationId);
+      const level = await client.setInventoryLevel(inventoryItemId, locationId, available);
+      await record(
+        'inventoryLevel',
+        formatInventoryLevelId(inventoryItemId, locationId),
+        { available: before },
+        { available: level.available }
+      );
+      return level;
+    },
+
+    async adjustInventoryLevel(inventoryItemId, locationId, adjustment) {
+      const before = await getAvailable(client, inventoryItemId, locationId);
+      const level = await client.adjustInventoryLevel(inventoryItemId, locationId, adjustment);
+      await record(
+        'inventoryLevel',
+        formatInventoryLevelId(inventoryItemId, locationId),
+        { available: before },
+        { available: level.available }
+      );
+      return level;
+    },
+  };
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      if (typeof property === 'string' && Object.hasOwn(snapshotting, property)) {
+        return snapshotting[property as keyof ShopifyClient];
+      }
+      const value = Reflect.get(target, property, receiver);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,315 @@
+/**
+ * Confirmation Tokens
+ *
+ * Two-step execution for destructive tools. When confirmation is required, the
+ * first call returns a summary and a short-lived confirmation token; the action
+ * only runs when the same arguments are submitted again with that token.
+ *
+ * Tokens are HMAC-signed over the shop, tool name, expiry, a nonce and the
+ * arguments. They are signed with CONFIRMATION_SECRET, or with the tenant's access
+ * token when it is not set. Each token is single-use: its nonce is stored when the
+ * token is issued (in the CONFIRMATION_KV namespace when it is bound, in memory
+ * per isolate otherwise) and deleted when the token is redeemed.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { Env } from '../types/env.js';
+import { ValidationError } from './errors.js';
+import { formatError, type ToolResponse } from './formatters.js';
+import { canonicalJson, hmacSha256, timingSafeEqual, toHex } from './hmac.js';
+import { matchesToolPattern } from './tool-profiles.js';
+
+/**
+ * Confirmation settings
+ */
+export const CONFIRMATION_DEFAULTS = {
+  /** How long a confirmation token stays valid (seconds) */
+  ttlSeconds: 5 * 60,
+  /** Prefix of confirmation tokens */
+  tokenPrefix: 'cf_',
+  /** Outstanding nonces kept per shop by the in-memory store */
+  memoryLimit: 500,
+} as const;
+
+/**
+ * Tools that need confirmation: deletes, cancellations, money movements and
+ * stock count overwrites
+ */
+export const DESTRUCTIVE_TOOLS = [
+  'shopify_delete_*',
+  'shopify_cancel_*',
+  'shopify_create_refund',
+  'shopify_create_transaction',
+  'shopify_reconcile_stock_count',
+];
+
+/**
+ * Check whether a tool needs confirmation
+ */
+export function isDestructiveTool(name: string): boolean {
+  return DESTRUCTIVE_TOOLS.some((pattern) => matchesToolPattern(name, pattern));
+}
+
+type ToolHandler = (args: Record<string, unknown>, extra: unknown) => Promise<ToolResponse>;
+
+/**
+ * Nonces of issued, unredeemed tokens, scoped to one shop
+ */
+export interface ConfirmationNonceStore {
+  add(nonce: string, ttlSeconds: number): Promise<void>;
+  /** Remove a nonce; false if it was never issued, has expired or was already used */
+  take(nonce: string): Promise<boolean>;
+}
+
+/**
+ * KV-backed nonces. KV has no atomic delete-if-present, so two redemptions of the
+ * same token racing in different isolates may both succeed; within an isolate
+ * a redemption is claimed in memory before KV is read.
+ */
+class KvConfirmationNonceStore implements ConfirmationNonceStore {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly shopDomain: string
+  ) {}
+
+  private nonceKey(nonce: string): string {
+    return `confirmation:${this.shopDomain}:${nonce}`;
+  }
+
+  async add(nonce: string, ttlSeconds: number): Promise<void> {
+    // KV expirations must be at least 60 seconds
+    await this.kv.put(this.nonceKey(nonce), '1', { expirationTtl: Math.max(ttlSeconds, 60) });
+  }
+
+  async take(nonce: string): Promise<boolean> {
+    const claim = `${this.shopDomain}:${nonce}`;
+    if ((redeeming.get(claim) ?? 0) > Date.now()) return false;
+    redeeming.set(claim, Date.now() + CONFIRMATION_DEFAULTS.ttlSeconds * 1000);
+    trimNonces(redeeming);
+
+    const stored = await this.kv.get(this.nonceKey(nonce));
+    if (stored === null) return false;
+    await this.kv.delete(this.nonceKey(nonce));
+    return true;
+  }
+}
+
+/**
+ * Nonces redeemed through KV in this isolate (with when the claim lapses), so a
+ * concurrent second redemption is refused before KV is read
+ */
+const redeeming = new Map<string, number>();
+
+/**
+ * Outstanding nonces (with their expiry) per shop, for the in-memory store
+ */
+const memoryNonces = new Map<string, Map<string, number>>();
+
+function trimNonces(nonces: Map<string, number>): void {
+  // Maps iterate in insertion order, so the first nonce is the oldest
+  while (nonces.size > CONFIRMATION_DEFAULTS.memoryLimit) {
+    const oldest = nonces.keys().next().value;
+    if (oldest === undefined) break;
+    nonces.delete(oldest);
+  }
+}
+
+class MemoryConfirmationNonceStore implements ConfirmationNonceStore {
+  constructor(private readonly shopDomain: string) {}
+
+  private nonces(): Map<string, number> {
+    let nonces = memoryNonces.get(this.shopDomain);
+    if (!nonces) {
+      nonces = new Map();
+      memoryNonces.set(this.shopDomain, nonces);
+    }
+    return nonces;
+  }
+
+  async add(nonce: string, ttlSeconds: number): Promise<void> {
+    const nonces = this.nonces();
+    nonces.set(nonce, Date.now() + ttlSeconds * 1000);
+    trimNonces(nonces);
+  }
+
+  async take(nonce: string): Promise<boolean> {
+    const nonces = this.nonces();
+    const expiresAt = nonces.get(nonce);
+    nonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+}
+
+/**
+ * Create the confirmation nonce store for a shop
+ */
+export function createConfirmationNonceStore(env: Env, shopDomain: string): ConfirmationNonceStore {
+  const shop = shopDomain.toLowerCase();
+  if (env.CONFIRMATION_KV) {
+    return new KvConfirmationNonceStore(env.CONFIRMATION_KV, shop);
+  }
+  return new MemoryConfirmationNonceStore(shop);
+}
+
+async function signConfirmation(
+  secret: string,
+  shopDomain: string,
+  tool: string,
+  expiresAt: number,
+  nonce: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  const message = [shopDomain, tool, expiresAt, nonce, canonicalJson(args)].join('\n');
+  return toHex(await hmacSha256(secret, message));
+}
+
+/**
+ * Issue a single-use confirmation token for a tool call
+ */
+export async function createConfirmationToken(
+  secret: string,
+  shopDomain: string,
+  nonces: ConfirmationNonceStore,
+  tool: string,
+  args: Record<string, unknown>
+): Promise<{ token: string; expiresAt: string }> {
+  const expiresAt = Math.floor(Date.now() / 1000) + CONFIRMATION_DEFAULTS.ttlSeconds;
+  const nonce = crypto.randomUUID().replace(/-/g, '');
+  const signature = await signConfirmation(secret, shopDomain, tool, expiresAt, nonce, args);
+  await nonces.add(nonce, CONFIRMATION_DEFAULTS.ttlSeconds);
+  return {
+    token: `${CONFIRMATION_DEFAULTS.tokenPrefix}${expiresAt}.${nonce}.${signature}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a confirmation token against the tool call it is submitted with, and use
+ * it up. A token is accepted once; its nonce must still be outstanding.
+ */
+export async function verifyConfirmationToken(
+  token: string,
+  secret: string,
+  shopDomain: string,
+  nonces: ConfirmationNonceStore,
+  tool: string,
+  args: Record<string, unknown>
+): Promise<boolean> {
+  const match = token.match(/^cf_(\d+)\.([0-9a-f]{32})\.([0-9a-f]{64})$/);
+  if (!match) return false;
+  const expiresAt = parseInt(match[1], 10);
+  if (expiresAt < Date.now() / 1000) return false;
+  const expected = await signConfirmation(secret, shopDomain, tool, expiresAt, match[2], args);
+  if (!timingSafeEqual(expected, match[3])) return false;
+  return nonces.take(match[2]);
+}
+
+/**
+ * Wrap a server so that destructive tools require a confirmation token. The
+ * first call returns the tool's dry-run preview (when it has one) and a token.
+ */
+export function applyConfirmation(
+  server: McpServer,
+  options: { secret: string; shopDomain: string; nonces: ConfirmationNonceStore }
+): McpServer {
+  const registerTool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (name: string, ...rest: unknown[]) => {
+        const [description, schema, handler] = rest;
+        if (
+          !isDestructiveTool(name) ||
+          rest.length !== 3 ||
+          typeof description !== 'string' ||
+          typeof handler !== 'function'
+        ) {
+          return registerTool(name, ...rest);
+        }
+
+        const shape = schema as Record<string, unknown>;
+        const run = handler as ToolHandler;
+        const confirmedHandler: ToolHandler = async ({ confirmationToken, ...args }, extra) => {
+          // Previews change nothing, so they never need confirming
+          if (args.dryRun) {
+            return run(args, extra);
+          }
+
+          try {
+            if (typeof confirmationToken === 'string') {
+              const valid = await verifyConfirmationToken(
+                confirmationToken,
+                options.secret,
+                options.shopDomain,
+                options.nonces,
+                name,
+                args
+              );
+              if (!valid) {
+                throw new ValidationError(
+                  'Confirmation token is invalid, expired, already used or was issued for different arguments',
+                  {
+                    confirmationToken: [
+                      'Call the tool again without confirmationToken to get a new token',
+                    ],
+                  }
+                );
+              }
+              return run(args, extra);
+            }
+
+            const preview = 'dryRun' in shape ? await run({ ...args, dryRun: true }, extra) : null;
+            if (preview?.isError) {
+              return preview;
+            }
+            const { token, expiresAt } = await createConfirmationToken(
+              options.secret,
+              options.shopDomain,
+              options.nonces,
+              name,
+              args
+            );
+            const summary = {
+              confirmationRequired: true,
+              tool: name,
+              message:
+                'Nothing was changed. This action is destructive: to execute it, call the tool again with the same arguments and confirmationToken.',
+              confirmationToken: token,
+              expiresAt,
+              arguments: args,
+            };
+            return {
+              content: [
+                { type: 'text', text: JSON.stringify(summary, null, 2) },
+                ...(preview?.content ?? []),
+              ],
+            };
+          } catch (error) {
+            return formatError(error);
+          }
+        };
+
+        return registerTool(
+          name,
+          `${description}
+
+Confirmation:
+  This tool is destructive. Calls without confirmationToken change nothing and return a
+  summary with a token; repeat the call with the same arguments and the token to execute.`,
+          {
+            ...shape,
+            confirmationToken: z
+              .string()
+              .optional()
+              .describe('Token from a previous call with the same arguments'),
+          },
+          confirmedHandler
+        );
+      };
+    },
+  });
+}
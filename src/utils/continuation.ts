@@ -0,0 +1,127 @@
+/**
+ * Continuation Store
+ *
+ * Holds the remainder of responses that were truncated to CHARACTER_LIMIT so a
+ * follow-up call can retrieve it by token. Each remainder belongs to the shop whose
+ * tool call produced it, and only that shop can retrieve it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { PaginatedResponse, ResponseFormat } from '../types/entities.js';
+
+/**
+ * Remainder of a truncated response
+ */
+export type Continuation =
+  | {
+      kind: 'items';
+      /** Remaining items, with the original page's cursors */
+      data: PaginatedResponse<unknown>;
+      format: ResponseFormat;
+      entityType: string;
+    }
+  | {
+      kind: 'text';
+      /** Remaining text of an already formatted response */
+      text: string;
+    }
+  | {
+      kind: 'lines';
+      /** Remaining lines of a file, such as an export */
+      lines: string[];
+      /** Description of the file, repeated with every chunk */
+      meta: Record<string, unknown>;
+    };
+
+/**
+ * Continuation store settings
+ */
+export const CONTINUATION_DEFAULTS = {
+  /** How long a continuation token stays valid */
+  ttlMs: 15 * 60 * 1000,
+  /** Maximum number of continuations kept per isolate */
+  maxEntries: 200,
+} as const;
+
+/**
+ * Continuations are kept per isolate, like the call-limit trackers. A token may
+ * not be found if the follow-up call lands on another isolate or after it expires.
+ */
+const continuations = new Map<
+  string,
+  { expiresAt: number; shopDomain: string | null; continuation: Continuation }
+>();
+
+/**
+ * Shop whose tool handler is running, so continuations are saved and taken per shop
+ */
+const shopContext = new AsyncLocalStorage<string>();
+
+/**
+ * Wrap a server so that each tool handler runs with the shop in context
+ */
+export function applyContinuationScope(server: McpServer, shopDomain: string): McpServer {
+  const registerTool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+  const shop = shopDomain.toLowerCase();
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (name: string, ...rest: unknown[]) => {
+        const handler = rest[rest.length - 1];
+        if (typeof handler !== 'function') {
+          return registerTool(name, ...rest);
+        }
+        const inScope = (...args: unknown[]) => shopContext.run(shop, () => handler(...args));
+        return registerTool(name, ...rest.slice(0, -1), inScope);
+      };
+    },
+  });
+}
+
+/**
+ * Generate a new continuation token
+ */
+export function createContinuationToken(): string {
+  return `ct_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Store the remainder of a response under a token
+ */
+export function saveContinuation(token: string, continuation: Continuation): void {
+  const now = Date.now();
+  for (const [key, entry] of continuations) {
+    if (entry.expiresAt <= now) continuations.delete(key);
+  }
+  // Maps iterate in insertion order, so the first key is the oldest
+  while (continuations.size >= CONTINUATION_DEFAULTS.maxEntries) {
+    const oldest = continuations.keys().next().value;
+    if (oldest === undefined) break;
+    continuations.delete(oldest);
+  }
+  continuations.set(token, {
+    expiresAt: now + CONTINUATION_DEFAULTS.ttlMs,
+    shopDomain: shopContext.getStore() ?? null,
+    continuation,
+  });
+}
+
+/**
+ * Retrieve and remove the remainder stored under a token. A token saved for another
+ * shop is treated as unknown and left in place.
+ */
+export function takeContinuation(token: string): Continuation | null {
+  const entry = continuations.get(token);
+  if (!entry || entry.shopDomain !== (shopContext.getStore() ?? null)) {
+    return null;
+  }
+  continuations.delete(token);
+  if (entry.expiresAt <= Date.now()) {
+    return null;
+  }
+  return entry.continuation;
+}
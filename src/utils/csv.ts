@@ -0,0 +1,155 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 CSV parsing and formatting: comma-separated fields, double-quoted fields
+ * that may contain commas, line breaks and doubled quotes, and CRLF or LF line endings.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * A parsed CSV row and the file line it starts on (1-based). Quoted fields may span
+ * lines, so line numbers can run ahead of row numbers.
+ */
+interface CsvRow {
+  fields: string[];
+  line: number;
+}
+
+function readCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  // Spreadsheet exports often start with a byte order mark
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push({ fields: row, line: rowLine });
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('CSV has an unterminated quoted field', {
+      csv: [`Line ${rowLine} opens a quote that is never closed`],
+    });
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  return readCsvRows(text).map((row) => row.fields);
+}
+
+/**
+ * Parse CSV text whose first row is a header into one record per row, keyed by
+ * the trimmed header names. Missing trailing fields read as empty strings.
+ * lines[i] is the file line records[i] starts on, for error messages.
+ */
+export function parseCsvRecords(text: string): {
+  headers: string[];
+  records: Record<string, string>[];
+  lines: number[];
+} {
+  const [header, ...rows] = readCsvRows(text);
+  if (!header) {
+    throw new ValidationError('CSV is empty', { csv: ['Expected a header row'] });
+  }
+  const headers = header.fields.map((name) => name.trim());
+  const records = rows.map(({ fields }) =>
+    Object.fromEntries(headers.map((name, index) => [name, fields[index]?.trim() ?? '']))
+  );
+  return { headers, records, lines: rows.map((row) => row.line) };
+}
+
+/**
+ * Quote a field when it contains a comma, quote or line break
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prefix text that a spreadsheet would run as a formula (=, +, -, @, tab or
+ * carriage return first) with a quote, so exported store data cannot inject
+ * formulas. Plain signed numbers are left as they are.
+ */
+export function neutralizeCsvFormula(value: unknown): unknown {
+  if (typeof value !== 'string' || !/^[=+\-@\t\r]/.test(value)) return value;
+  return /^[+-]\d+(\.\d+)?$/.test(value) ? value : `'${value}`;
+}
+
+/**
+ * Format one CSV line (without the line break)
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvField).join(',');
+}
+
+/**
+ * Flatten nested objects into dotted keys (shippingAddress.city). Arrays are kept
+ * whole and written as JSON.
+ */
+export function flattenRecord(value: unknown, prefix = ''): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { [prefix || 'value']: value };
+  }
+  const flat: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+      Object.assign(flat, flattenRecord(entry, path));
+    } else {
+      flat[path] = entry;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Format records as CSV text with a header row. Columns default to every key,
+ * in the order first seen.
+ */
+export function formatCsv(records: Record<string, unknown>[], columns?: string[]): string {
+  const header = columns ?? [...new Set(records.flatMap((record) => Object.keys(record)))];
+  return [header, ...records.map((record) => header.map((column) => record[column]))]
+    .map(formatCsvRow)
+    .join('\n');
+}
@@ -0,0 +1,156 @@
+/**
+ * Dry Runs
+ *
+ * Previews for mutating tools called with dryRun. Tools fetch the current entity
+ * with a read and describe what the mutation would change, without sending it.
+ */
+
+/**
+ * A single field that would change
+ */
+export interface FieldChange {
+  /** Field path, e.g. title or shippingAddress.city */
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Result of a dry run
+ */
+export interface DryRunResult {
+  dryRun: true;
+  action: 'create' | 'update' | 'delete';
+  entityType: string;
+  id?: number | string;
+  message: string;
+  /** Fields that would be set (create) or changed (update) */
+  changes?: FieldChange[];
+  /** Requested fields that already have the requested value (update) */
+  unchanged?: string[];
+  /** The entity as it is now, which would be lost (delete) */
+  wouldDelete?: unknown;
+  /** Related records the change applies to, e.g. the parent product */
+  context?: Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare values the way Shopify echoes them back: money and other numbers are
+ * often returned as strings ("19.90" for 19.9)
+ */
+function isSameValue(current: unknown, next: unknown): boolean {
+  if (current === next) return true;
+  if (
+    (typeof current === 'string' || typeof current === 'number') &&
+    (typeof next === 'string' || typeof next === 'number')
+  ) {
+    const a = Number(current);
+    const b = Number(next);
+    if (current !== '' && next !== '' && Number.isFinite(a) && Number.isFinite(b)) {
+      return a === b;
+    }
+    return String(current) === String(next);
+  }
+  return JSON.stringify(current ?? null) === JSON.stringify(next ?? null);
+}
+
+/**
+ * Field-level diff of an update input against the current entity. Fields left
+ * undefined in the input are not part of the update and are skipped; nested
+ * objects are compared field by field.
+ */
+export function diffFields(
+  current: object | null,
+  input: object,
+  prefix = ''
+): { changes: FieldChange[]; unchanged: string[] } {
+  const source = (current ?? {}) as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const [key, next] of Object.entries(input)) {
+    if (next === undefined) continue;
+    const field = `${prefix}${key}`;
+    const value = source[key];
+    if (isPlainObject(next) && (value === undefined || isPlainObject(value))) {
+      const nested = diffFields(value ?? null, next, `${field}.`);
+      changes.push(...nested.changes);
+      unchanged.push(...nested.unchanged);
+    } else if (isSameValue(value, next)) {
+      unchanged.push(field);
+    } else {
+      changes.push({ field, from: value ?? null, to: next });
+    }
+  }
+
+  return { changes, unchanged };
+}
+
+/**
+ * Preview creating an entity
+ */
+export function previewCreate(
+  entityType: string,
+  input: object,
+  context?: Record<string, unknown>
+): DryRunResult {
+  const { changes } = diffFields(null, input);
+  return {
+    dryRun: true,
+    action: 'create',
+    entityType,
+    message: `Dry run: would create ${entityType} with ${changes.length} field(s). Nothing was changed.`,
+    changes,
+    ...(context ? { context } : {}),
+  };
+}
+
+/**
+ * Preview updating an entity
+ */
+export function previewUpdate(
+  entityType: string,
+  id: number | string,
+  current: object,
+  input: object,
+  context?: Record<string, unknown>
+): DryRunResult {
+  const { changes, unchanged } = diffFields(current, input);
+  return {
+    dryRun: true,
+    action: 'update',
+    entityType,
+    id,
+    message:
+      changes.length > 0
+        ? `Dry run: would change ${changes.length} field(s) on ${entityType} ${id}. Nothing was changed.`
+        : `Dry run: ${entityType} ${id} already has the requested values. Nothing was changed.`,
+    changes,
+    unchanged,
+    ...(context ? { context } : {}),
+  };
+}
+
+/**
+ * Preview deleting an entity
+ */
+export function previewDelete(
+  entityType: string,
+  id: number | string,
+  current: unknown,
+  context?: Record<string, unknown>
+): DryRunResult {
+  return {
+    dryRun: true,
+    action: 'delete',
+    entityType,
+    id,
+    message: `Dry run: would permanently delete ${entityType} ${id}. Nothing was changed.`,
+    wouldDelete: current,
+    ...(context ? { context } : {}),
+  };
+}
@@ -25,9 +25,9 @@ export class CrmApiError extends Error {
  * Rate limit exceeded error
  */
 export class RateLimitError extends CrmApiError {
-  public retryAfterSeconds: number;
+  public retryAfterSeconds?: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
+  constructor(message: string, retryAfterSeconds?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
     this.name = 'RateLimitError';
     this.retryAfterSeconds = retryAfterSeconds;
@@ -76,10 +76,9 @@ export function isRetryableError(error: unknown): boolean {
   }
   if (error instanceof Error) {
     // Network errors are typically retryable
+    const message = error.message.toLowerCase();
     return (
-      error.message.includes('network') ||
-      error.message.includes('timeout') ||
-      error.message.includes('ECONNRESET')
+      message.includes('network') || message.includes('timeout') || message.includes('econnreset')
     );
   }
   return false;
@@ -0,0 +1,213 @@
+/**
+ * Export Schemas
+ *
+ * Fixed column schemas for flat product, order and customer exports. Nested
+ * records become rows: one row per variant, per line item or per address, with
+ * the parent's columns repeated. Columns are the same for every export, whatever
+ * the data, so files can be loaded into the same sheet or table each time.
+ */
+
+import type {
+  Address,
+  Customer,
+  LineItem,
+  Order,
+  Product,
+  ProductVariant,
+} from '../types/entities.js';
+import { formatCsvRow, neutralizeCsvFormula } from './csv.js';
+
+/**
+ * Export settings
+ */
+export const EXPORT_DEFAULTS = {
+  /** Page size used to read the store (the REST maximum) */
+  pageSize: 250,
+  /** Entities exported unless the caller asks for fewer or more */
+  maxRecords: 2500,
+  /**
+   * Upper bound on maxRecords. Exports are built in memory and read back in chunks,
+   * so larger jobs should use shopify_start_bulk_export instead.
+   */
+  maxRecordsLimit: 5000,
+} as const;
+
+/**
+ * Top-level fields requested for each export, so pages carry only what the columns use
+ */
+export const EXPORT_FIELDS = {
+  products:
+    'id,handle,title,vendor,productType,tags,status,publishedAt,createdAt,updatedAt,options,variants,images,image',
+  orders:
+    'id,name,orderNumber,createdAt,processedAt,cancelledAt,email,customer,financialStatus,fulfillmentStatus,currency,subtotalPrice,totalDiscounts,totalTax,totalPrice,tags,shippingAddress,lineItems',
+  customers:
+    'id,email,firstName,lastName,phone,state,ordersCount,totalSpent,currency,tags,acceptsMarketing,taxExempt,createdAt,updatedAt,addresses',
+} as const;
+
+export type ExportFormat = 'csv' | 'jsonl';
+
+type ExportColumn<T> = [name: string, value: (row: T) => unknown];
+
+interface ProductRow {
+  product: Product;
+  variant: ProductVariant | null;
+}
+
+interface OrderRow {
+  order: Order;
+  lineItem: LineItem | null;
+}
+
+interface CustomerRow {
+  customer: Customer;
+  address: Address | null;
+}
+
+const PRODUCT_COLUMNS: ExportColumn<ProductRow>[] = [
+  ['productId', ({ product }) => product.id],
+  ['handle', ({ product }) => product.handle],
+  ['title', ({ product }) => product.title],
+  ['vendor', ({ product }) => product.vendor],
+  ['productType', ({ product }) => product.productType],
+  ['tags', ({ product }) => product.tags],
+  ['status', ({ product }) => product.status],
+  ['publishedAt', ({ product }) => product.publishedAt],
+  ['createdAt', ({ product }) => product.createdAt],
+  ['updatedAt', ({ product }) => product.updatedAt],
+  ['variantId', ({ variant }) => variant?.id],
+  ['variantTitle', ({ variant }) => variant?.title],
+  ['option1Name', ({ product }) => product.options?.[0]?.name],
+  ['option1', ({ variant }) => variant?.option1],
+  ['option2Name', ({ product }) => product.options?.[1]?.name],
+  ['option2', ({ variant }) => variant?.option2],
+  ['option3Name', ({ product }) => product.options?.[2]?.name],
+  ['option3', ({ variant }) => variant?.option3],
+  ['sku', ({ variant }) => variant?.sku],
+  ['barcode', ({ variant }) => variant?.barcode],
+  ['price', ({ variant }) => variant?.price],
+  ['compareAtPrice', ({ variant }) => variant?.compareAtPrice],
+  ['inventoryItemId', ({ variant }) => variant?.inventoryItemId],
+  ['inventoryQuantity', ({ variant }) => variant?.inventoryQuantity],
+  ['inventoryPolicy', ({ variant }) => variant?.inventoryPolicy],
+  ['weight', ({ variant }) => variant?.weight],
+  ['weightUnit', ({ variant }) => variant?.weightUnit],
+  [
+    'imageSrc',
+    ({ product, variant }) =>
+      product.images?.find((image) => image.id === variant?.imageId)?.src ?? product.image?.src,
+  ],
+];
+
+const ORDER_COLUMNS: ExportColumn<OrderRow>[] = [
+  ['orderId', ({ order }) => order.id],
+  ['name', ({ order }) => order.name],
+  ['orderNumber', ({ order }) => order.orderNumber],
+  ['createdAt', ({ order }) => order.createdAt],
+  ['processedAt', ({ order }) => order.processedAt],
+  ['cancelledAt', ({ order }) => order.cancelledAt],
+  ['email', ({ order }) => order.email],
+  ['customerId', ({ order }) => order.customer?.id],
+  ['financialStatus', ({ order }) => order.financialStatus],
+  ['fulfillmentStatus', ({ order }) => order.fulfillmentStatus],
+  ['currency', ({ order }) => order.currency],
+  ['subtotalPrice', ({ order }) => order.subtotalPrice],
+  ['totalDiscounts', ({ order }) => order.totalDiscounts],
+  ['totalTax', ({ order }) => order.totalTax],
+  ['totalPrice', ({ order }) => order.totalPrice],
+  ['tags', ({ order }) => order.tags],
+  ['shippingName', ({ order }) => order.shippingAddress?.name],
+  ['shippingAddress1', ({ order }) => order.shippingAddress?.address1],
+  ['shippingAddress2', ({ order }) => order.shippingAddress?.address2],
+  ['shippingCity', ({ order }) => order.shippingAddress?.city],
+  ['shippingProvinceCode', ({ order }) => order.shippingAddress?.provinceCode],
+  ['shippingCountryCode', ({ order }) => order.shippingAddress?.countryCode],
+  ['shippingZip', ({ order }) => order.shippingAddress?.zip],
+  ['lineItemId', ({ lineItem }) => lineItem?.id],
+  ['productId', ({ lineItem }) => lineItem?.productId],
+  ['variantId', ({ lineItem }) => lineItem?.variantId],
+  ['sku', ({ lineItem }) => lineItem?.sku],
+  ['lineItemTitle', ({ lineItem }) => lineItem?.title],
+  ['variantTitle', ({ lineItem }) => lineItem?.variantTitle],
+  ['quantity', ({ lineItem }) => lineItem?.quantity],
+  ['price', ({ lineItem }) => lineItem?.price],
+  ['lineItemDiscount', ({ lineItem }) => lineItem?.totalDiscount],
+  ['lineItemFulfillmentStatus', ({ lineItem }) => lineItem?.fulfillmentStatus],
+];
+
+const CUSTOMER_COLUMNS: ExportColumn<CustomerRow>[] = [
+  ['customerId', ({ customer }) => customer.id],
+  ['email', ({ customer }) => customer.email],
+  ['firstName', ({ customer }) => customer.firstName],
+  ['lastName', ({ customer }) => customer.lastName],
+  ['phone', ({ customer }) => customer.phone],
+  ['state', ({ customer }) => customer.state],
+  ['ordersCount', ({ customer }) => customer.ordersCount],
+  ['totalSpent', ({ customer }) => customer.totalSpent],
+  ['currency', ({ customer }) => customer.currency],
+  ['tags', ({ customer }) => customer.tags],
+  ['acceptsMarketing', ({ customer }) => customer.acceptsMarketing],
+  ['taxExempt', ({ customer }) => customer.taxExempt],
+  ['createdAt', ({ customer }) => customer.createdAt],
+  ['updatedAt', ({ customer }) => customer.updatedAt],
+  ['addressId', ({ address }) => address?.id],
+  ['addressDefault', ({ address }) => address?.default],
+  ['company', ({ address }) => address?.company],
+  ['address1', ({ address }) => address?.address1],
+  ['address2', ({ address }) => address?.address2],
+  ['city', ({ address }) => address?.city],
+  ['provinceCode', ({ address }) => address?.provinceCode],
+  ['countryCode', ({ address }) => address?.countryCode],
+  ['zip', ({ address }) => address?.zip],
+  ['addressPhone', ({ address }) => address?.phone],
+];
+
+/**
+ * One row per child record, or a single row with empty child columns when there are none
+ */
+function expand<C, R>(children: C[] | undefined, toRow: (child: C | null) => R): R[] {
+  return children && children.length > 0 ? children.map(toRow) : [toRow(null)];
+}
+
+function toLines<T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat): string[] {
+  if (format === 'jsonl') {
+    return rows.map((row) =>
+      JSON.stringify(Object.fromEntries(columns.map(([name, value]) => [name, value(row) ?? null])))
+    );
+  }
+  return [
+    formatCsvRow(columns.map(([name]) => name)),
+    ...rows.map((row) =>
+      formatCsvRow(columns.map(([, value]) => neutralizeCsvFormula(value(row))))
+    ),
+  ];
+}
+
+/**
+ * Export lines for products, one row per variant
+ */
+export function exportProductLines(products: Product[], format: ExportFormat): string[] {
+  const rows = products.flatMap((product) =>
+    expand(product.variants, (variant) => ({ product, variant }))
+  );
+  return toLines(rows, PRODUCT_COLUMNS, format);
+}
+
+/**
+ * Export lines for orders, one row per line item
+ */
+export function exportOrderLines(orders: Order[], format: ExportFormat): string[] {
+  const rows = orders.flatMap((order) =>
+    expand(order.lineItems, (lineItem) => ({ order, lineItem }))
+  );
+  return toLines(rows, ORDER_COLUMNS, format);
+}
+
+/**
+ * Export lines for customers, one row per address
+ */
+export function exportCustomerLines(customers: Customer[], format: ExportFormat): string[] {
+  const rows = customers.flatMap((customer) =>
+    expand(customer.addresses, (address) => ({ customer, address }))
+  );
+  return toLines(rows, CUSTOMER_COLUMNS, format);
+}
@@ -1,7 +1,7 @@
 /**
  * Response Formatting Utilities
  *
- * Helpers for formatting tool responses in JSON or Markdown.
+ * Helpers for formatting tool responses in JSON, Markdown or CSV.
  */
 
 import type {
@@ -9,15 +9,20 @@ import type {
   DraftOrder,
   Fulfillment,
   Location,
+  LowStockReport,
   Order,
   PaginatedResponse,
   PriceRule,
   Product,
+  ProductInventory,
   ResponseFormat,
   Theme,
   Webhook,
 } from '../types/entities.js';
-import { CrmApiError, formatErrorForLogging } from './errors.js';
+import { createContinuationToken, saveContinuation, takeContinuation } from './continuation.js';
+import { flattenRecord, formatCsv, neutralizeCsvFormula } from './csv.js';
+import { CrmApiError, formatErrorForLogging, ValidationError } from './errors.js';
+import { createPaginatedResponse } from './pagination.js';
 
 /**
  * MCP tool response type
@@ -29,24 +34,193 @@ export interface ToolResponse {
   isError?: boolean;
 }
 
+/**
+ * Maximum characters per response, set from CHARACTER_LIMIT at startup
+ */
+let characterLimit = 50000;
+
+/**
+ * Set the maximum number of characters per response
+ */
+export function setResponseCharacterLimit(limit: number): void {
+  characterLimit = limit;
+}
+
+/**
+ * Get the maximum number of characters per response
+ */
+export function getResponseCharacterLimit(): number {
+  return characterLimit;
+}
+
 /**
  * Format a successful response
+ *
+ * Responses over the character limit are truncated, and the remainder can be
+ * retrieved with the returned continuation token.
  */
 export function formatResponse(
   data: unknown,
   format: ResponseFormat,
   entityType: string
 ): ToolResponse {
-  if (format === 'markdown') {
-    return {
-      content: [{ type: 'text', text: formatAsMarkdown(data, entityType) }],
-    };
+  const text = renderResponse(data, format, entityType);
+  if (text.length <= characterLimit) {
+    return { content: [{ type: 'text', text }] };
+  }
+  return {
+    content: [{ type: 'text', text: truncateResponse(data, format, entityType) }],
+  };
+}
+
+/**
+ * Format the remainder of a truncated response
+ */
+export function formatContinuation(token: string): ToolResponse {
+  const continuation = takeContinuation(token);
+  if (!continuation) {
+    throw new ValidationError('Continuation token is invalid or has expired', {
+      continuationToken: ['Continuation token is invalid or has expired'],
+    });
+  }
+  if (continuation.kind === 'items') {
+    return formatResponse(continuation.data, continuation.format, continuation.entityType);
+  }
+  if (continuation.kind === 'lines') {
+    return formatLines(continuation.lines, continuation.meta);
+  }
+  return formatText(continuation.text);
+}
+
+/**
+ * Return text that is already rendered, such as a custom Markdown report, cut at
+ * the character limit with a continuation token for the rest
+ */
+export function formatText(text: string): ToolResponse {
+  if (text.length <= characterLimit) {
+    return { content: [{ type: 'text', text }] };
   }
   return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    content: [{ type: 'text', text: truncateText(text, createContinuationToken()) }],
   };
 }
 
+/**
+ * Format the lines of a file, such as an export, as whole lines up to the character
+ * limit. The first content block holds only file data, so chunks can be joined back
+ * together; the second describes the file and holds the continuation token for the
+ * next chunk.
+ */
+export function formatLines(lines: string[], meta: Record<string, unknown>): ToolResponse {
+  // Leave room for the description block
+  const budget = characterLimit - 1000;
+  let count = 0;
+  let length = 0;
+  while (count < lines.length && length + lines[count].length + 1 <= budget) {
+    length += lines[count].length + 1;
+    count++;
+  }
+  // At least one line is always returned so that reading makes progress
+  count = Math.max(count, Math.min(1, lines.length));
+
+  const remaining = lines.slice(count);
+  const token = remaining.length > 0 ? createContinuationToken() : undefined;
+  if (token) {
+    saveContinuation(token, { kind: 'lines', lines: remaining, meta });
+  }
+  const description = {
+    ...meta,
+    linesInChunk: count,
+    remainingLines: remaining.length,
+    ...(token && {
+      continuationToken: token,
+      message: `Call shopify_get_continuation with continuationToken "${token}" for the next chunk.`,
+    }),
+  };
+  return {
+    content: [
+      { type: 'text', text: lines.slice(0, count).join('\n') },
+      { type: 'text', text: JSON.stringify(description, null, 2) },
+    ],
+  };
+}
+
+function renderResponse(data: unknown, format: ResponseFormat, entityType: string): string {
+  switch (format) {
+    case 'markdown':
+      return formatAsMarkdown(data, entityType);
+    case 'csv':
+      return formatAsCsv(data);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
+
+/**
+ * Cut a list response at the last item boundary that fits. Responses that are not
+ * lists, or whose first item alone is too large, are cut as text.
+ */
+function truncateResponse(data: unknown, format: ResponseFormat, entityType: string): string {
+  const token = createContinuationToken();
+  const page = isPaginatedResponse(data)
+    ? data
+    : Array.isArray(data)
+      ? createPaginatedResponse(data)
+      : null;
+
+  if (page) {
+    const { items } = page;
+    // The remainder carries the page's own cursors, so they are withheld here
+    const truncated = (count: number): PaginatedResponse<unknown> => ({
+      ...page,
+      items: items.slice(0, count),
+      count,
+      hasMore: true,
+      nextCursor: undefined,
+      omittedCount: items.length - count,
+      continuationToken: token,
+    });
+
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (renderResponse(truncated(mid), format, entityType).length <= characterLimit) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (low > 0) {
+      saveContinuation(token, {
+        kind: 'items',
+        data: {
+          ...page,
+          items: items.slice(low),
+          count: items.length - low,
+          previousCursor: undefined,
+        },
+        format,
+        entityType,
+      });
+      return renderResponse(truncated(low), format, entityType);
+    }
+  }
+
+  return truncateText(renderResponse(data, format, entityType), token);
+}
+
+/**
+ * Cut text at the character limit and store the rest under the token
+ */
+function truncateText(text: string, token: string): string {
+  const notice = `\n\n[Truncated: ${text.length} characters in total. Call shopify_get_continuation with continuationToken "${token}" for the rest.]`;
+  const cut = Math.max(0, characterLimit - notice.length);
+  saveContinuation(token, { kind: 'text', text: text.slice(cut) });
+  return `${text.slice(0, cut)}${notice}`;
+}
+
 /**
  * Format an error response
  */
@@ -76,6 +250,41 @@ export function formatError(error: unknown): ToolResponse {
   };
 }
 
+/**
+ * Flatten an item into a CSV record. Cells and column names (which can come from
+ * store data, such as location names) are neutralized so spreadsheets do not run them.
+ */
+function toCsvRecord(item: unknown): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(flattenRecord(item)).map(([key, value]) => [
+      neutralizeCsvFormula(key),
+      neutralizeCsvFormula(value),
+    ])
+  );
+}
+
+/**
+ * Format data as CSV, one row per item with nested objects flattened into dotted
+ * columns. Pagination notes follow the rows, separated by a blank line.
+ */
+function formatAsCsv(data: unknown): string {
+  if (isPaginatedResponse(data)) {
+    const notes: string[] = [];
+    if (data.hasMore && data.nextCursor) {
+      notes.push(`[More available: pass cursor "${data.nextCursor}" for the next page]`);
+    }
+    if (data.continuationToken) {
+      notes.push(
+        `[Truncated: ${data.omittedCount} more items. Call shopify_get_continuation with continuationToken "${data.continuationToken}" for the rest.]`
+      );
+    }
+    const csv = formatCsv(data.items.map(toCsvRecord));
+    return notes.length > 0 ? `${csv}\n\n${notes.join('\n')}` : csv;
+  }
+  const rows = Array.isArray(data) ? data : [data];
+  return formatCsv(rows.map(toCsvRecord));
+}
+
 /**
  * Format data as Markdown
  */
@@ -122,9 +331,17 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     lines.push(`**Showing:** ${data.count}`);
   }
 
-  if (data.hasMore) {
+  if (data.hasMore && data.nextCursor) {
     lines.push(`**More available:** Yes (cursor: \`${data.nextCursor}\`)`);
   }
+  if (data.continuationToken) {
+    lines.push(
+      `**Truncated:** ${data.omittedCount} more items (continuation token: \`${data.continuationToken}\`)`
+    );
+  }
+  if (data.previousCursor) {
+    lines.push(`**Previous page cursor:** \`${data.previousCursor}\``);
+  }
   lines.push('');
 
   if (data.items.length === 0) {
@@ -332,6 +549,80 @@ export function formatThemesAsMarkdown(themes: Theme[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format a product's variant by location stock matrix as a Markdown table
+ */
+export function formatProductInventoryAsMarkdown(inventory: ProductInventory): string {
+  const lines: string[] = [];
+  lines.push(`## Inventory: ${inventory.title}`);
+  lines.push('');
+  lines.push(`**Product ID:** ${inventory.productId} | **Total available:** ${inventory.total}`);
+  lines.push('');
+  lines.push(
+    `| Variant | SKU | Tracked | ${inventory.locations.map((location) => location.name).join(' | ')} | Total |`
+  );
+  lines.push(
+    `|${Array(inventory.locations.length + 4)
+      .fill('---')
+      .join('|')}|`
+  );
+
+  for (const variant of inventory.variants) {
+    const quantities = inventory.locations.map(
+      (location) => variant.levels[String(location.id)] ?? '-'
+    );
+    lines.push(
+      `| ${variant.title} | ${variant.sku || '-'} | ${variant.tracked ? 'Yes' : 'No'} | ${quantities.join(' | ')} | ${variant.total} |`
+    );
+  }
+  lines.push(
+    `| **Total** | | | ${inventory.locations.map((location) => location.total).join(' | ')} | ${inventory.total} |`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a low-stock report as a Markdown table, most urgent first
+ */
+export function formatLowStockReportAsMarkdown(report: LowStockReport): string {
+  const lines: string[] = [];
+  lines.push('## Low Stock');
+  lines.push('');
+  lines.push(
+    `**Locations:** ${report.locations.map((location) => location.name).join(', ') || '-'} | **Velocity:** last ${report.velocityDays} days | **Needing reorder:** ${report.total}`
+  );
+  lines.push('');
+
+  if (report.items.length === 0) {
+    lines.push('_No variants need reorder_');
+  } else {
+    lines.push(
+      '| SKU | Product | Variant | Available | Threshold | Shortfall | Sold/day | Days of cover |'
+    );
+    lines.push('|---|---|---|---|---|---|---|---|');
+    for (const item of report.items) {
+      lines.push(
+        `| ${item.sku || '-'} | ${item.productTitle} | ${item.variantTitle} | ${item.available} | ${item.threshold} | ${item.shortfall} | ${item.dailyVelocity} | ${item.daysOfCover ?? '-'} |`
+      );
+    }
+    if (report.items.length < report.total) {
+      lines.push('');
+      lines.push(`_Showing ${report.items.length} of ${report.total}; raise limit for more_`);
+    }
+  }
+
+  if (report.warnings.length > 0) {
+    lines.push('');
+    lines.push('**Warnings:**');
+    for (const warning of report.warnings) {
+      lines.push(`- ${warning}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format a generic array as Markdown table
  */
@@ -0,0 +1,96 @@
+/**
+ * HMAC Utilities
+ *
+ * Signature checks for requests signed by Shopify with a shared secret, and
+ * hashing helpers for values stored at rest.
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Compute an HMAC-SHA256 digest
+ */
+export async function hmacSha256(secret: string, data: ArrayBuffer | string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const message = typeof data === 'string' ? encoder.encode(data) : data;
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 digest of a string, as hex
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))));
+}
+
+/**
+ * JSON with object keys sorted, so equal values always sign and hash the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify the X-Shopify-Hmac-Sha256 header (base64 digest of the raw body)
+ */
+export async function verifyWebhookHmac(
+  body: ArrayBuffer,
+  signature: string | null,
+  secret: string
+): Promise<boolean> {
+  if (!signature) return false;
+  const digest = await hmacSha256(secret, body);
+  return timingSafeEqual(btoa(String.fromCharCode(...digest)), signature);
+}
+
+/**
+ * Verify the hmac parameter of an OAuth redirect (hex digest of the other
+ * parameters, sorted and joined as a query string)
+ */
+export async function verifyQueryHmac(params: URLSearchParams, secret: string): Promise<boolean> {
+  const signature = params.get('hmac');
+  if (!signature) return false;
+  const message = [...params.entries()]
+    .filter(([key]) => key !== 'hmac' && key !== 'signature')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const digest = await hmacSha256(secret, message);
+  return timingSafeEqual(toHex(digest), signature);
+}
@@ -0,0 +1,253 @@
+/**
+ * Idempotency Keys
+ *
+ * Create tools, and tools that create records under another name such as
+ * shopify_fulfill_line_items, accept an optional idempotencyKey. The first
+ * successful result for a key is remembered for a window, and a retry with the
+ * same key and arguments returns that result instead of calling Shopify again, so
+ * a retry after a timeout cannot create a duplicate order, refund or fulfillment.
+ *
+ * Results live in the IDEMPOTENCY_KV namespace when it is bound, and in memory
+ * (per isolate) otherwise.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { type Env, getEnvNumber } from '../types/env.js';
+import { ValidationError } from './errors.js';
+import { formatError, type ToolResponse } from './formatters.js';
+import { canonicalJson, sha256Hex } from './hmac.js';
+import { matchesToolPattern } from './tool-profiles.js';
+
+/**
+ * Idempotency settings
+ */
+export const IDEMPOTENCY_DEFAULTS = {
+  /** How long a key's result is remembered (seconds) */
+  ttlSeconds: 24 * 60 * 60,
+  /** Keys kept per shop by the in-memory store */
+  memoryLimit: 500,
+} as const;
+
+/**
+ * Tools that accept an idempotency key: create tools, and tools that create
+ * records under another name
+ */
+export const IDEMPOTENT_TOOLS = [
+  'shopify_create_*',
+  'shopify_fulfill_line_items',
+  'shopify_complete_draft_order',
+  'shopify_import_products_csv',
+];
+
+/**
+ * Result remembered for a key
+ */
+export interface IdempotencyRecord {
+  /** Hash of the arguments the key was first used with */
+  fingerprint: string;
+  response: ToolResponse;
+  createdAt: string;
+}
+
+/**
+ * Idempotency store scoped to one shop
+ */
+export interface IdempotencyStore {
+  get(tool: string, key: string): Promise<IdempotencyRecord | null>;
+  put(tool: string, key: string, record: IdempotencyRecord): Promise<void>;
+}
+
+class KvIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly shopDomain: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  private recordKey(tool: string, key: string): string {
+    return `idempotency:${this.shopDomain}:${tool}:${key}`;
+  }
+
+  async get(tool: string, key: string): Promise<IdempotencyRecord | null> {
+    return this.kv.get<IdempotencyRecord>(this.recordKey(tool, key), 'json');
+  }
+
+  async put(tool: string, key: string, record: IdempotencyRecord): Promise<void> {
+    await this.kv.put(this.recordKey(tool, key), JSON.stringify(record), {
+      expirationTtl: this.ttlSeconds,
+    });
+  }
+}
+
+const memoryRecords = new Map<string, Map<string, IdempotencyRecord & { expiresAt: number }>>();
+
+class MemoryIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly shopDomain: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  private records(): Map<string, IdempotencyRecord & { expiresAt: number }> {
+    let records = memoryRecords.get(this.shopDomain);
+    if (!records) {
+      records = new Map();
+      memoryRecords.set(this.shopDomain, records);
+    }
+    return records;
+  }
+
+  async get(tool: string, key: string): Promise<IdempotencyRecord | null> {
+    const records = this.records();
+    const record = records.get(`${tool}:${key}`);
+    if (!record) return null;
+    if (record.expiresAt <= Date.now()) {
+      records.delete(`${tool}:${key}`);
+      return null;
+    }
+    return record;
+  }
+
+  async put(tool: string, key: string, record: IdempotencyRecord): Promise<void> {
+    const records = this.records();
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (records.size >= IDEMPOTENCY_DEFAULTS.memoryLimit) {
+      const oldest = records.keys().next().value;
+      if (oldest === undefined) break;
+      records.delete(oldest);
+    }
+    records.set(`${tool}:${key}`, { ...record, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+  }
+}
+
+/**
+ * Create the idempotency store for a shop
+ */
+export function createIdempotencyStore(env: Env, shopDomain: string): IdempotencyStore {
+  const shop = shopDomain.toLowerCase();
+  const ttlSeconds = getEnvNumber(env, 'IDEMPOTENCY_TTL_SECONDS', IDEMPOTENCY_DEFAULTS.ttlSeconds);
+  if (env.IDEMPOTENCY_KV) {
+    return new KvIdempotencyStore(env.IDEMPOTENCY_KV, shop, ttlSeconds);
+  }
+  return new MemoryIdempotencyStore(shop, ttlSeconds);
+}
+
+type ToolHandler = (args: Record<string, unknown>, extra: unknown) => Promise<ToolResponse>;
+
+/**
+ * Calls in progress in this isolate, so concurrent retries wait for the first one
+ */
+const pending = new Map<string, Promise<ToolResponse>>();
+
+function replayed(record: IdempotencyRecord, key: string): ToolResponse {
+  const note = {
+    idempotentReplay: true,
+    idempotencyKey: key,
+    message: `Returned the result of the first call with this key (${record.createdAt}); Shopify was not called again.`,
+  };
+  return {
+    ...record.response,
+    content: [...record.response.content, { type: 'text', text: JSON.stringify(note, null, 2) }],
+  };
+}
+
+/**
+ * Wrap a server so that create tools accept an idempotencyKey argument
+ */
+export function applyIdempotency(
+  server: McpServer,
+  store: IdempotencyStore,
+  shopDomain: string
+): McpServer {
+  const registerTool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (name: string, ...rest: unknown[]) => {
+        const [description, schema, handler] = rest;
+        if (
+          !IDEMPOTENT_TOOLS.some((pattern) => matchesToolPattern(name, pattern)) ||
+          rest.length !== 3 ||
+          typeof description !== 'string' ||
+          typeof handler !== 'function'
+        ) {
+          return registerTool(name, ...rest);
+        }
+
+        const run = handler as ToolHandler;
+        const execute = async (
+          key: string,
+          args: Record<string, unknown>,
+          extra: unknown
+        ): Promise<ToolResponse> => {
+          const fingerprint = await sha256Hex(canonicalJson(args));
+          const existing = await store.get(name, key);
+          if (existing) {
+            if (existing.fingerprint !== fingerprint) {
+              throw new ValidationError(
+                'Idempotency key was already used with different arguments',
+                {
+                  idempotencyKey: ['Use a new key for a different request'],
+                }
+              );
+            }
+            return replayed(existing, key);
+          }
+
+          const response = await run(args, extra);
+          // Failed calls created nothing, so they may be retried with the same key
+          if (!response.isError) {
+            await store.put(name, key, {
+              fingerprint,
+              response,
+              createdAt: new Date().toISOString(),
+            });
+          }
+          return response;
+        };
+
+        const idempotentHandler: ToolHandler = async ({ idempotencyKey, ...args }, extra) => {
+          // Previews change nothing, so there is nothing to de-duplicate
+          if (typeof idempotencyKey !== 'string' || args.dryRun) {
+            return run(args, extra);
+          }
+
+          const pendingKey = `${shopDomain}:${name}:${idempotencyKey}`;
+          const inFlight = pending.get(pendingKey);
+          if (inFlight) {
+            await inFlight.catch(() => undefined);
+          }
+          const call = execute(idempotencyKey, args, extra).catch(formatError);
+          pending.set(pendingKey, call);
+          try {
+            return await call;
+          } finally {
+            if (pending.get(pendingKey) === call) pending.delete(pendingKey);
+          }
+        };
+
+        return registerTool(
+          name,
+          `${description}
+
+Idempotency:
+  Pass idempotencyKey (any unique string, e.g. a UUID) to make retries safe: a repeat call
+  with the same key and arguments returns the first result instead of creating again.`,
+          {
+            ...(schema as Record<string, unknown>),
+            idempotencyKey: z
+              .string()
+              .min(1)
+              .max(255)
+              .optional()
+              .describe('Unique key that makes retries of this call return the first result'),
+          },
+          idempotentHandler
+        );
+      };
+    },
+  });
+}
@@ -1,3 +1,22 @@
+export * from './audit-log.js';
+export * from './batch.js';
+export * from './bulk.js';
+export * from './call-limit.js';
+export * from './change-history.js';
+export * from './confirmation.js';
+export * from './continuation.js';
+export * from './csv.js';
+export * from './dry-run.js';
 export * from './errors.js';
+export * from './exports.js';
 export * from './formatters.js';
+export * from './hmac.js';
+export * from './idempotency.js';
 export * from './pagination.js';
+export * from './product-csv.js';
+export * from './projection.js';
+export * from './response-cache.js';
+export * from './retry.js';
+export * from './shop-access.js';
+export * from './tool-profiles.js';
+export * from './webhook-store.js';
@@ -25,6 +25,7 @@ export function normalizePaginationParams(
     limit: Math.min(params?.limit || PAGINATION_DEFAULTS.limit, maxLimit),
     sinceId: params?.sinceId,
     fields: params?.fields,
+    cursor: params?.cursor,
   };
 }
 
@@ -48,6 +49,7 @@ export function createPaginatedResponse<T>(
     total?: number;
     hasMore?: boolean;
     nextCursor?: string;
+    previousCursor?: string;
   } = {}
 ): PaginatedResponse<T> {
   return {
@@ -56,6 +58,7 @@ export function createPaginatedResponse<T>(
     total: options.total,
     hasMore: options.hasMore ?? false,
     nextCursor: options.nextCursor,
+    previousCursor: options.previousCursor,
   };
 }
 
@@ -93,3 +96,25 @@ export function parseLinkHeader(linkHeader: string | null): {
 
   return result;
 }
+
+/**
+ * Read every page of a list, up to maxRecords entities (all of them by default)
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (cursor?: string) => Promise<PaginatedResponse<T>>,
+  maxRecords = Number.POSITIVE_INFINITY
+): Promise<{ items: T[]; complete: boolean }> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    if (!page.hasMore || !page.nextCursor) {
+      return { items: items.slice(0, maxRecords), complete: items.length <= maxRecords };
+    }
+    if (items.length >= maxRecords) {
+      return { items: items.slice(0, maxRecords), complete: false };
+    }
+    cursor = page.nextCursor;
+  }
+}
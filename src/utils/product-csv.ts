@@ -0,0 +1,244 @@
+/**
+ * Product CSV
+ *
+ * Reads Shopify's product CSV format (the file Shopify admin exports and imports).
+ * Rows are grouped by Handle: the first row of a handle carries the product fields,
+ * and every row may add a variant (option values, Variant * columns) and an image
+ * (Image Src, Image Position, Image Alt Text). A Variant Image becomes a product
+ * image linked to the row's variant.
+ *
+ * Blank cells are left out, so they never clear a field on an existing product.
+ * Variant Inventory Qty is not imported; inventory is set per location with the
+ * inventory tools.
+ */
+
+import type {
+  ProductCreateInput,
+  ProductImage,
+  ProductStatus,
+  ProductVariant,
+} from '../types/entities.js';
+import { parseCsvRecords } from './csv.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * One product's rows, ready to create or update
+ */
+export interface ProductCsvGroup {
+  handle: string;
+  /** File line numbers of every row for the handle (the header is line 1) */
+  rows: number[];
+  /** Line of the row holding the product fields */
+  productRow: number;
+  /** Product fields set in the CSV */
+  product: Omit<ProductCreateInput, 'title' | 'variants' | 'options' | 'images'> & {
+    title?: string;
+  };
+  /** Option names, in position order */
+  options: string[];
+  variants: { row: number; input: Partial<ProductVariant> }[];
+  /** Images in file order, with the rows whose variant shows each one (Variant Image) */
+  images: { row: number; input: Partial<ProductImage>; variantRows: number[] }[];
+}
+
+/**
+ * A row that could not be read, which keeps its whole product from importing
+ */
+export interface ProductCsvRowError {
+  row: number;
+  handle: string;
+  error: string;
+}
+
+const STATUSES: ProductStatus[] = ['active', 'draft', 'archived'];
+
+/**
+ * Grams per unit of Variant Weight Unit
+ */
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, lb: 453.59237, oz: 28.349523 };
+
+function parseBoolean(value: string, column: string): boolean {
+  const normalized = value.toLowerCase();
+  if (normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  throw new Error(`${column} must be TRUE or FALSE, got "${value}"`);
+}
+
+function parseMoney(value: string, column: string): string {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`${column} must be a number, got "${value}"`);
+  }
+  return value;
+}
+
+function readProduct(record: Record<string, string>): ProductCsvGroup['product'] {
+  const product: ProductCsvGroup['product'] = { handle: record.Handle };
+  if (record.Title) product.title = record.Title;
+  if (record['Body (HTML)']) product.bodyHtml = record['Body (HTML)'];
+  if (record.Vendor) product.vendor = record.Vendor;
+  if (record.Type) product.productType = record.Type;
+  if (record.Tags) product.tags = record.Tags;
+  if (record.Status) {
+    const status = record.Status.toLowerCase() as ProductStatus;
+    if (!STATUSES.includes(status)) {
+      throw new Error(`Status must be one of ${STATUSES.join(', ')}, got "${record.Status}"`);
+    }
+    product.status = status;
+  }
+  return product;
+}
+
+function readVariant(record: Record<string, string>): Partial<ProductVariant> | null {
+  const hasVariant = ['Option1 Value', 'Variant SKU', 'Variant Price'].some(
+    (column) => record[column]
+  );
+  if (!hasVariant) return null;
+
+  const variant: Partial<ProductVariant> = {};
+  if (record['Option1 Value']) variant.option1 = record['Option1 Value'];
+  if (record['Option2 Value']) variant.option2 = record['Option2 Value'];
+  if (record['Option3 Value']) variant.option3 = record['Option3 Value'];
+  if (record['Variant SKU']) variant.sku = record['Variant SKU'];
+  if (record['Variant Barcode']) variant.barcode = record['Variant Barcode'];
+  if (record['Variant Price']) {
+    variant.price = parseMoney(record['Variant Price'], 'Variant Price');
+  }
+  if (record['Variant Compare At Price']) {
+    variant.compareAtPrice = parseMoney(
+      record['Variant Compare At Price'],
+      'Variant Compare At Price'
+    );
+  }
+  if (record['Variant Grams']) {
+    const grams = Number(record['Variant Grams']);
+    if (!Number.isFinite(grams)) {
+      throw new Error(`Variant Grams must be a number, got "${record['Variant Grams']}"`);
+    }
+    // Variant Grams is always in grams; Variant Weight Unit is the unit shown in admin
+    const unit = record['Variant Weight Unit']?.toLowerCase() || 'g';
+    const perUnit = GRAMS_PER_UNIT[unit];
+    if (!perUnit) {
+      throw new Error(`Variant Weight Unit must be g, kg, lb or oz, got "${unit}"`);
+    }
+    variant.weight = Math.round((grams / perUnit) * 1000) / 1000;
+    variant.weightUnit = unit;
+  }
+  if (record['Variant Inventory Tracker']) {
+    variant.inventoryManagement = record['Variant Inventory Tracker'];
+  }
+  if (record['Variant Inventory Policy']) {
+    const policy = record['Variant Inventory Policy'].toLowerCase();
+    if (policy !== 'deny' && policy !== 'continue') {
+      throw new Error(`Variant Inventory Policy must be deny or continue, got "${policy}"`);
+    }
+    variant.inventoryPolicy = policy;
+  }
+  if (record['Variant Fulfillment Service']) {
+    variant.fulfillmentService = record['Variant Fulfillment Service'];
+  }
+  if (record['Variant Requires Shipping']) {
+    variant.requiresShipping = parseBoolean(
+      record['Variant Requires Shipping'],
+      'Variant Requires Shipping'
+    );
+  }
+  if (record['Variant Taxable']) {
+    variant.taxable = parseBoolean(record['Variant Taxable'], 'Variant Taxable');
+  }
+  if (record['Variant Tax Code']) variant.taxCode = record['Variant Tax Code'];
+  return variant;
+}
+
+function readImage(record: Record<string, string>): Partial<ProductImage> | null {
+  if (!record['Image Src']) return null;
+  const image: Partial<ProductImage> = { src: record['Image Src'] };
+  if (record['Image Position']) {
+    const position = parseInt(record['Image Position'], 10);
+    if (!Number.isInteger(position) || position < 1) {
+      throw new Error(`Image Position must be a positive whole number`);
+    }
+    image.position = position;
+  }
+  if (record['Image Alt Text']) image.alt = record['Image Alt Text'];
+  return image;
+}
+
+/**
+ * Parse a Shopify product CSV into one group per handle, in file order.
+ * Handles with an unreadable row are left out and their rows reported as errors.
+ */
+export function parseProductCsv(text: string): {
+  groups: ProductCsvGroup[];
+  errors: ProductCsvRowError[];
+} {
+  const { headers, records, lines } = parseCsvRecords(text);
+  if (!headers.includes('Handle')) {
+    throw new ValidationError('CSV is not in Shopify product format', {
+      csv: ['The header row must include a Handle column'],
+    });
+  }
+
+  const groups = new Map<string, ProductCsvGroup>();
+  const errors: ProductCsvRowError[] = [];
+  const invalidHandles = new Set<string>();
+
+  records.forEach((record, index) => {
+    const row = lines[index];
+    const handle = record.Handle;
+    if (!handle) {
+      errors.push({ row, handle: '', error: 'Handle is required' });
+      return;
+    }
+
+    let group = groups.get(handle);
+    try {
+      if (!group) {
+        group = {
+          handle,
+          rows: [],
+          productRow: row,
+          product: readProduct(record),
+          options: [record['Option1 Name'], record['Option2 Name'], record['Option3 Name']].filter(
+            Boolean
+          ),
+          variants: [],
+          images: [],
+        };
+        groups.set(handle, group);
+      }
+      group.rows.push(row);
+      const variant = readVariant(record);
+      if (variant) group.variants.push({ row, input: variant });
+      const image = readImage(record);
+      if (image) group.images.push({ row, input: image, variantRows: [] });
+      const variantImage = record['Variant Image'];
+      if (variantImage) {
+        // Variants that share an image, such as every size of a colour, link to one image
+        let entry = group.images.find(({ input }) => input.src === variantImage);
+        if (!entry) {
+          entry = { row, input: { src: variantImage }, variantRows: [] };
+          group.images.push(entry);
+        }
+        if (variant) entry.variantRows.push(row);
+      }
+    } catch (error) {
+      group?.rows.push(row);
+      invalidHandles.add(handle);
+      errors.push({ row, handle, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  for (const handle of invalidHandles) {
+    const group = groups.get(handle);
+    groups.delete(handle);
+    const failedRows = new Set(errors.filter((error) => error.handle === handle).map((e) => e.row));
+    for (const row of group?.rows ?? []) {
+      if (!failedRows.has(row)) {
+        errors.push({ row, handle, error: 'Skipped: another row for this handle is invalid' });
+      }
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { groups: [...groups.values()], errors };
+}
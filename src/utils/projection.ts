@@ -0,0 +1,96 @@
+/**
+ * Field Projection Utilities
+ *
+ * Helpers for the `fields` tool argument: a comma-separated list of field paths
+ * (e.g. "id,name,line_items.sku"). Shopify's own `fields` parameter only selects
+ * top-level fields, so nested paths are applied client-side after the fetch.
+ */
+
+import type { PaginatedResponse } from '../types/entities.js';
+
+/**
+ * Projection tree: true keeps the whole value, a nested tree keeps only its fields
+ */
+type Projection = { [key: string]: true | Projection };
+
+function snakeToCamel(str: string): string {
+  return str.replace(/_([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+}
+
+function camelToSnake(str: string): string {
+  return str.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+function parsePaths(fields: string): string[][] {
+  return fields
+    .split(',')
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map((path) => path.split('.').map((segment) => snakeToCamel(segment.trim())));
+}
+
+/**
+ * Top-level field names for Shopify's `fields` query parameter
+ */
+export function toRestFields(fields: string): string {
+  const names = new Set(parsePaths(fields).map(([name]) => camelToSnake(name)));
+  return [...names].join(',');
+}
+
+function buildProjection(fields: string): Projection {
+  const projection: Projection = {};
+  for (const path of parsePaths(fields)) {
+    let node = projection;
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        node[segment] = true;
+        return;
+      }
+      const child = node[segment];
+      if (child === true) return;
+      node[segment] = child ?? {};
+      node = node[segment] as Projection;
+    });
+  }
+  return projection;
+}
+
+function applyProjection(value: unknown, projection: Projection): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => applyProjection(item, projection));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  // Source keys are matched in camelCase too, so raw snake_case payloads project the same way
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    const child = projection[snakeToCamel(key)];
+    if (child === undefined) continue;
+    result[key] = child === true ? fieldValue : applyProjection(fieldValue, child);
+  }
+  return result;
+}
+
+function isPaginatedResponse(data: unknown): data is PaginatedResponse<unknown> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'items' in data &&
+    Array.isArray((data as PaginatedResponse<unknown>).items)
+  );
+}
+
+/**
+ * Keep only the requested field paths of an entity, a list of entities or the
+ * items of a paginated response. Paths may be given in snake_case or camelCase.
+ */
+export function projectFields(data: unknown, fields?: string): unknown {
+  if (!fields?.trim()) return data;
+  const projection = buildProjection(fields);
+  if (isPaginatedResponse(data)) {
+    return { ...data, items: applyProjection(data.items, projection) };
+  }
+  return applyProjection(data, projection);
+}
@@ -0,0 +1,63 @@
+/**
+ * Response Cache
+ *
+ * Short-lived cache of GET responses for stateful (Durable Object) sessions, so
+ * repeated reads within a conversation do not spend the shop's call limit.
+ */
+
+/**
+ * Default cache settings
+ */
+export const RESPONSE_CACHE_DEFAULTS = {
+  /** How long a cached response is reused */
+  ttlMs: 30 * 1000,
+  /** How long shop metadata (/shop.json) is reused */
+  shopTtlMs: 60 * 60 * 1000,
+  /** Maximum number of cached responses */
+  maxEntries: 200,
+} as const;
+
+/**
+ * In-memory cache keyed by request path. Values are copied in and out, so callers
+ * that modify a response (projection, formatting) never change the cached one.
+ */
+export class ResponseCache {
+  private entries = new Map<string, { expiresAt: number; value: unknown }>();
+
+  constructor(
+    private readonly ttlMs: number = RESPONSE_CACHE_DEFAULTS.ttlMs,
+    private readonly maxEntries: number = RESPONSE_CACHE_DEFAULTS.maxEntries
+  ) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown, ttlMs = this.ttlMs): void {
+    this.entries.delete(key);
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { expiresAt: Date.now() + ttlMs, value: structuredClone(value) });
+  }
+
+  /**
+   * Drop every cached response (after a write, any of them may be stale)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
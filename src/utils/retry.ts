@@ -0,0 +1,73 @@
+/**
+ * Retry Utilities
+ *
+ * Backoff policy for retrying throttled (429) and transient (5xx/network) failures.
+ */
+
+import { type Env, getEnvNumber } from '../types/env.js';
+
+/**
+ * Retry policy for Shopify API requests
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Total time budget across all attempts in milliseconds */
+  timeBudgetMs: number;
+  /** HTTP methods that are safe to retry after 5xx/network failures */
+  retryableMethods: string[];
+}
+
+/**
+ * Default retry settings.
+ * POST is excluded because Shopify creates are not idempotent; a 429 is retried for
+ * every method since throttled requests were never executed.
+ */
+export const RETRY_DEFAULTS: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  timeBudgetMs: 30000,
+  retryableMethods: ['GET', 'PUT', 'DELETE'],
+};
+
+/**
+ * Build the retry policy from environment variables
+ */
+export function getRetryPolicy(env: Env): RetryPolicy {
+  return {
+    ...RETRY_DEFAULTS,
+    maxAttempts: getEnvNumber(env, 'RETRY_MAX_ATTEMPTS', RETRY_DEFAULTS.maxAttempts),
+    baseDelayMs: getEnvNumber(env, 'RETRY_BASE_DELAY_MS', RETRY_DEFAULTS.baseDelayMs),
+    maxDelayMs: getEnvNumber(env, 'RETRY_MAX_DELAY_MS', RETRY_DEFAULTS.maxDelayMs),
+    timeBudgetMs: getEnvNumber(env, 'RETRY_TIME_BUDGET_MS', RETRY_DEFAULTS.timeBudgetMs),
+  };
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Uses exponential backoff with full jitter, and never waits less than the
+ * server-provided Retry-After value.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterSeconds?: number
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const backoff = Math.random() * ceiling;
+  const retryAfterMs = retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : 0;
+  return Math.max(backoff, retryAfterMs);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
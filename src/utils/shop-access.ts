@@ -0,0 +1,42 @@
+/**
+ * Shop Access Check
+ *
+ * Tools that read data this server stored per shop (webhook events, the audit log,
+ * change history) never call Shopify, so nothing else proves the caller's access
+ * token belongs to the shop named in X-Shopify-Shop-Domain. The check fetches the
+ * shop with the caller's credentials and requires its myshopify domain to match.
+ */
+
+import type { ShopifyClient } from '../client.js';
+import { AuthenticationError } from './errors.js';
+
+/**
+ * Resolves when the credentials belong to the shop, and throws otherwise
+ */
+export type ShopAccessCheck = () => Promise<void>;
+
+/**
+ * Create the access check for a shop. A successful check is remembered for the
+ * lifetime of the server; a failed one is retried on the next call.
+ */
+export function createShopAccessCheck(client: ShopifyClient, shopDomain: string): ShopAccessCheck {
+  const expected = shopDomain.toLowerCase();
+  let verified: Promise<void> | null = null;
+
+  const verify = async (): Promise<void> => {
+    const shop = await client.getShop();
+    if (shop.myshopifyDomain?.toLowerCase() !== expected) {
+      throw new AuthenticationError(
+        `The access token does not belong to ${shopDomain}; stored data for that shop is not available.`
+      );
+    }
+  };
+
+  return () => {
+    verified ??= verify().catch((error: unknown) => {
+      verified = null;
+      throw error;
+    });
+    return verified;
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Tool Profiles
+ *
+ * Limits which tools a server exposes, per request. A profile selects a base set
+ * of tools and explicit allow/deny lists adjust it. Tools outside the policy are
+ * removed as they are registered, so clients never see them in tools/list and
+ * cannot call them.
+ *
+ * Request headers:
+ * - X-MCP-Tool-Profile: readonly | support | merchandising | full
+ * - X-MCP-Tool-Allow: comma-separated tool names added to the profile
+ * - X-MCP-Tool-Deny: comma-separated tool names removed (deny always wins)
+ * - X-MCP-Require-Confirmation: true to require confirmation tokens for destructive tools
+ *
+ * Names may use * as a wildcard, e.g. shopify_delete_*.
+ */
+
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Env } from '../types/env.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Tools that only read data. shopify_graphql_query is not listed, here or in any
+ * narrower profile, because with allowWrite it can run any mutation.
+ */
+const READ_ONLY_TOOLS = [
+  'shopify_test_connection',
+  'shopify_get_*',
+  'shopify_list_*',
+  'shopify_search_*',
+  'shopify_fetch_*',
+  'shopify_find_*',
+  'shopify_calculate_refund',
+  'shopify_start_bulk_export',
+  'shopify_export_*',
+  'shopify_low_stock_report',
+];
+
+/**
+ * Tool patterns included in each profile
+ */
+export const TOOL_PROFILES = {
+  /** Reads only */
+  readonly: READ_ONLY_TOOLS,
+  /** Reads plus customer service: customers, order notes, fulfillments and draft orders */
+  support: [
+    ...READ_ONLY_TOOLS,
+    'shopify_create_customer',
+    'shopify_update_customer',
+    'shopify_update_order',
+    'shopify_close_order',
+    'shopify_open_order',
+    'shopify_create_fulfillment',
+    'shopify_update_fulfillment_tracking',
+    'shopify_fulfill_line_items',
+    'shopify_move_fulfillment_order',
+    'shopify_hold_fulfillment_order',
+    'shopify_release_fulfillment_order_hold',
+    'shopify_reschedule_fulfillment_order',
+    'shopify_create_draft_order',
+    'shopify_update_draft_order',
+    'shopify_send_draft_order_invoice',
+  ],
+  /** Reads plus catalog work: products, collections, inventory, discounts and metafields */
+  merchandising: [
+    ...READ_ONLY_TOOLS,
+    'shopify_create_product',
+    'shopify_update_product',
+    'shopify_batch_update_products',
+    'shopify_import_products_csv',
+    'shopify_create_variant',
+    'shopify_update_variant',
+    'shopify_batch_update_variants',
+    'shopify_create_product_image',
+    'shopify_update_product_image',
+    'shopify_delete_product_image',
+    'shopify_create_custom_collection',
+    'shopify_update_custom_collection',
+    'shopify_create_smart_collection',
+    'shopify_update_smart_collection',
+    'shopify_create_collect',
+    'shopify_delete_collect',
+    'shopify_adjust_inventory_level',
+    'shopify_set_inventory_level',
+    'shopify_transfer_inventory',
+    'shopify_reconcile_stock_count',
+    'shopify_update_inventory_item',
+    'shopify_create_price_rule',
+    'shopify_update_price_rule',
+    'shopify_create_discount_code',
+    'shopify_update_discount_code',
+    'shopify_create_metafield',
+    'shopify_update_metafield',
+    'shopify_revert_change',
+  ],
+  /** Every tool */
+  full: ['*'],
+} as const satisfies Record<string, readonly string[]>;
+
+export type ToolProfile = keyof typeof TOOL_PROFILES;
+
+/**
+ * Which tools a server exposes, and whether destructive ones need confirming
+ */
+export interface ToolPolicy {
+  profile: ToolProfile;
+  /** Extra tool names or patterns on top of the profile */
+  allow: string[];
+  /** Tool names or patterns to remove, even if the profile or allow list includes them */
+  deny: string[];
+  /** Whether destructive tools need a confirmation token (see confirmation.ts) */
+  requireConfirmation: boolean;
+}
+
+function isToolProfile(value: string): value is ToolProfile {
+  return Object.hasOwn(TOOL_PROFILES, value);
+}
+
+function parseList(value: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Match a tool name against a name or * wildcard pattern
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return name === pattern;
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Parse the tool policy from request headers, defaulting to DEFAULT_TOOL_PROFILE
+ * (or full) when no profile is requested
+ */
+export function parseToolPolicy(request: Request, env: Env): ToolPolicy {
+  const headers = request.headers;
+  const profile = (
+    headers.get('X-MCP-Tool-Profile') ||
+    env.DEFAULT_TOOL_PROFILE ||
+    'full'
+  ).toLowerCase();
+  if (!isToolProfile(profile)) {
+    throw new ValidationError(`Unknown tool profile: ${profile}`, {
+      'X-MCP-Tool-Profile': [`Must be one of: ${Object.keys(TOOL_PROFILES).join(', ')}`],
+    });
+  }
+
+  return {
+    profile,
+    allow: parseList(headers.get('X-MCP-Tool-Allow')),
+    deny: parseList(headers.get('X-MCP-Tool-Deny')),
+    requireConfirmation:
+      env.REQUIRE_CONFIRMATION === 'true' ||
+      headers.get('X-MCP-Require-Confirmation')?.toLowerCase() === 'true',
+  };
+}
+
+/**
+ * Check whether a policy exposes a tool
+ */
+export function isToolAllowed(name: string, policy: ToolPolicy): boolean {
+  if (policy.deny.some((pattern) => matchesToolPattern(name, pattern))) {
+    return false;
+  }
+  const patterns: readonly string[] = TOOL_PROFILES[policy.profile];
+  return [...patterns, ...policy.allow].some((pattern) => matchesToolPattern(name, pattern));
+}
+
+/**
+ * Wrap a server so that tools outside the policy are removed as soon as they are
+ * registered. The register*Tools functions take the wrapped server unchanged.
+ */
+export function applyToolPolicy(server: McpServer, policy: ToolPolicy): McpServer {
+  if (policy.profile === 'full' && policy.deny.length === 0) {
+    return server;
+  }
+
+  const registerTool = server.tool.bind(server) as (
+    name: string,
+    ...rest: unknown[]
+  ) => RegisteredTool;
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== 'tool') {
+        return Reflect.get(target, property, receiver);
+      }
+      return (name: string, ...rest: unknown[]): RegisteredTool => {
+        const tool = registerTool(name, ...rest);
+        if (!isToolAllowed(name, policy)) {
+          tool.remove();
+        }
+        return tool;
+      };
+    },
+  });
+}
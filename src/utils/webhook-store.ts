@@ -0,0 +1,171 @@
+/**
+ * Webhook Event Storage
+ *
+ * Stores webhook deliveries received by the worker so tools can read them later.
+ * Events live in the WEBHOOK_EVENTS KV namespace when it is bound, and in an
+ * in-memory store (per isolate) otherwise, e.g. in local development and tests.
+ */
+
+import type {
+  PaginatedResponse,
+  WebhookEvent,
+  WebhookEventListParams,
+  WebhookEventSummary,
+} from '../types/entities.js';
+import { type Env, getEnvNumber } from '../types/env.js';
+import { createPaginatedResponse } from './pagination.js';
+
+/**
+ * Webhook event storage settings
+ */
+export const WEBHOOK_EVENT_DEFAULTS = {
+  /** How long events are kept (seconds) */
+  ttlSeconds: 7 * 24 * 60 * 60,
+  /** Events kept per shop by the in-memory store */
+  memoryLimit: 500,
+  /** Default page size when listing events */
+  pageSize: 20,
+} as const;
+
+/**
+ * Event store scoped to one shop
+ */
+export interface WebhookEventStore {
+  /** Store an event. Returns false if the webhook ID was already stored. */
+  add(event: WebhookEvent): Promise<boolean>;
+  get(webhookId: string): Promise<WebhookEvent | null>;
+  /** List events, newest first */
+  list(params?: WebhookEventListParams): Promise<PaginatedResponse<WebhookEventSummary>>;
+}
+
+function toSummary(event: WebhookEvent): WebhookEventSummary {
+  const { payload: _payload, ...summary } = event;
+  return summary;
+}
+
+// =============================================================================
+// KV Store
+// =============================================================================
+
+/**
+ * KV-backed store.
+ *
+ * Each event is written under its webhook ID, plus an index key ordered newest
+ * first whose metadata holds the summary, so listing needs no extra reads.
+ * KV has no transactions, so de-duplication is best effort for concurrent deliveries.
+ */
+class KvWebhookEventStore implements WebhookEventStore {
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly shopDomain: string,
+    private readonly ttlSeconds: number
+  ) {}
+
+  private eventKey(webhookId: string): string {
+    return `webhook-events:${this.shopDomain}:id:${webhookId}`;
+  }
+
+  private indexPrefix(): string {
+    return `webhook-events:${this.shopDomain}:at:`;
+  }
+
+  async add(event: WebhookEvent): Promise<boolean> {
+    if ((await this.kv.get(this.eventKey(event.webhookId))) !== null) {
+      return false;
+    }
+    // Inverted timestamp so that lexicographic key order is newest first
+    const inverted = Number.MAX_SAFE_INTEGER - Date.parse(event.receivedAt);
+    const options = { expirationTtl: this.ttlSeconds };
+    await this.kv.put(this.eventKey(event.webhookId), JSON.stringify(event), options);
+    await this.kv.put(`${this.indexPrefix()}${inverted}:${event.webhookId}`, '', {
+      ...options,
+      metadata: toSummary(event),
+    });
+    return true;
+  }
+
+  async get(webhookId: string): Promise<WebhookEvent | null> {
+    return this.kv.get<WebhookEvent>(this.eventKey(webhookId), 'json');
+  }
+
+  async list(params: WebhookEventListParams = {}): Promise<PaginatedResponse<WebhookEventSummary>> {
+    const result = await this.kv.list<WebhookEventSummary>({
+      prefix: this.indexPrefix(),
+      limit: params.limit ?? WEBHOOK_EVENT_DEFAULTS.pageSize,
+      cursor: params.cursor,
+    });
+    const items = result.keys
+      .map((key) => key.metadata)
+      .filter((summary): summary is WebhookEventSummary => Boolean(summary))
+      .filter((summary) => !params.topic || summary.topic === params.topic);
+    return createPaginatedResponse(items, {
+      hasMore: !result.list_complete,
+      nextCursor: result.list_complete ? undefined : result.cursor,
+    });
+  }
+}
+
+// =============================================================================
+// In-Memory Store
+// =============================================================================
+
+const memoryEvents = new Map<string, WebhookEvent[]>();
+
+/**
+ * In-memory store, newest first, capped per shop
+ */
+class MemoryWebhookEventStore implements WebhookEventStore {
+  constructor(private readonly shopDomain: string) {}
+
+  private events(): WebhookEvent[] {
+    let events = memoryEvents.get(this.shopDomain);
+    if (!events) {
+      events = [];
+      memoryEvents.set(this.shopDomain, events);
+    }
+    return events;
+  }
+
+  async add(event: WebhookEvent): Promise<boolean> {
+    const events = this.events();
+    if (events.some((existing) => existing.webhookId === event.webhookId)) {
+      return false;
+    }
+    events.unshift(event);
+    events.splice(WEBHOOK_EVENT_DEFAULTS.memoryLimit);
+    return true;
+  }
+
+  async get(webhookId: string): Promise<WebhookEvent | null> {
+    return this.events().find((event) => event.webhookId === webhookId) ?? null;
+  }
+
+  async list(params: WebhookEventListParams = {}): Promise<PaginatedResponse<WebhookEventSummary>> {
+    const limit = params.limit ?? WEBHOOK_EVENT_DEFAULTS.pageSize;
+    const offset = params.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+    const matching = this.events().filter((event) => !params.topic || event.topic === params.topic);
+    const page = matching.slice(offset, offset + limit);
+    const hasMore = offset + limit < matching.length;
+    return createPaginatedResponse(page.map(toSummary), {
+      total: matching.length,
+      hasMore,
+      nextCursor: hasMore ? String(offset + limit) : undefined,
+    });
+  }
+}
+
+/**
+ * Create the event store for a shop
+ */
+export function createWebhookEventStore(env: Env, shopDomain: string): WebhookEventStore {
+  const shop = shopDomain.toLowerCase();
+  if (env.WEBHOOK_EVENTS) {
+    const ttlSeconds = getEnvNumber(
+      env,
+      'WEBHOOK_EVENT_TTL_SECONDS',
+      WEBHOOK_EVENT_DEFAULTS.ttlSeconds
+    );
+    return new KvWebhookEventStore(env.WEBHOOK_EVENTS, shop, ttlSeconds);
+  }
+  return new MemoryWebhookEventStore(shop);
+}
@@ -0,0 +1,97 @@
+/**
+ * Webhook Receiver
+ *
+ * Handles webhook deliveries from Shopify at /webhooks/:shop. Deliveries are
+ * verified against the shop's signing secret, de-duplicated by webhook ID and
+ * stored for the webhook event tools.
+ */
+
+import type { WebhookEvent } from './types/entities.js';
+import { type Env, isValidShopDomain } from './types/env.js';
+import { verifyWebhookHmac } from './utils/hmac.js';
+import { createWebhookEventStore } from './utils/webhook-store.js';
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Look up a shop's webhook signing secret from WEBHOOK_SECRETS, falling back to
+ * the app's client secret, which signs webhooks created by an OAuth-installed app
+ */
+export function getWebhookSecret(env: Env, shopDomain: string): string | null {
+  if (env.WEBHOOK_SECRETS) {
+    try {
+      const secrets = JSON.parse(env.WEBHOOK_SECRETS) as Record<string, string>;
+      if (secrets[shopDomain]) return secrets[shopDomain];
+    } catch {
+      // Fall through to the app secret
+    }
+  }
+  return env.SHOPIFY_API_SECRET || null;
+}
+
+/**
+ * Handle a webhook delivery for a shop
+ */
+export async function handleWebhookRequest(
+  request: Request,
+  env: Env,
+  shopDomain: string
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const shop = shopDomain.toLowerCase();
+  if (!isValidShopDomain(shop)) {
+    return jsonResponse({ error: 'Invalid shop domain' }, 400);
+  }
+
+  const secret = getWebhookSecret(env, shop);
+  if (!secret) {
+    return jsonResponse({ error: 'No webhook secret configured for this shop' }, 404);
+  }
+
+  // The signature covers the raw body, so it is read before parsing
+  const body = await request.arrayBuffer();
+  const valid = await verifyWebhookHmac(body, request.headers.get('X-Shopify-Hmac-Sha256'), secret);
+  if (!valid) {
+    return jsonResponse({ error: 'Invalid webhook signature' }, 401);
+  }
+
+  const headers = request.headers;
+  const webhookId = headers.get('X-Shopify-Webhook-Id');
+  const topic = headers.get('X-Shopify-Topic');
+  if (!webhookId || !topic) {
+    return jsonResponse({ error: 'Missing X-Shopify-Webhook-Id or X-Shopify-Topic header' }, 400);
+  }
+  const headerShop = headers.get('X-Shopify-Shop-Domain');
+  if (headerShop && headerShop.toLowerCase() !== shop) {
+    return jsonResponse({ error: 'Shop domain does not match the webhook URL' }, 400);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    return jsonResponse({ error: 'Webhook body is not valid JSON' }, 400);
+  }
+
+  const event: WebhookEvent = {
+    webhookId,
+    shopDomain: shop,
+    topic,
+    apiVersion: headers.get('X-Shopify-API-Version'),
+    triggeredAt: headers.get('X-Shopify-Triggered-At'),
+    receivedAt: new Date().toISOString(),
+    payload,
+  };
+  const stored = await createWebhookEventStore(env, shop).add(event);
+
+  // Shopify retries anything but a 2xx, so duplicates are acknowledged too
+  return jsonResponse({ received: true, duplicate: !stored }, 200);
+}